@@ -5,7 +5,8 @@ import { join } from "node:path";
 import type { OAuth2Client } from "google-auth-library";
 import { google } from "googleapis";
 import type { Config } from "../config/schema.js";
-import type { EnrichedEvent } from "../connpass/types.js";
+import { formatChanges } from "../connpass/changes.js";
+import type { EnrichedEvent, Venue } from "../connpass/types.js";
 import { createChildLogger } from "../utils/logger.js";
 import { googleCalendarRateLimiter } from "../utils/rate-limiter.js";
 
@@ -269,24 +270,95 @@ export class GoogleCalendarClient {
 
   /**
    * イベントの種類に応じた色IDを取得
-   * 6種類: (登壇/人気/興味) × (オフライン/オンライン)
+   * 12種類: (フォロー/登壇/人気/興味) × (オフライン/オンライン/ハイブリッド)
+   * ハイブリッドの色が未設定の場合はオフラインの色を使用
    */
   getColorId(options: {
     hasSpeakerOpportunity: boolean;
     isPopular: boolean;
-    isOnline?: boolean;
+    isFollowed?: boolean;
+    venueType?: Venue["type"];
   }): string | undefined {
     const calConfig = this.config.google_calendar;
-    const isOnline = options.isOnline ?? false;
+    const venueType = options.venueType ?? "offline";
+
+    let colors: Record<Venue["type"], string | undefined>;
+    if (options.isFollowed) {
+      colors = {
+        offline: calConfig.color_followed,
+        online: calConfig.color_followed_online,
+        hybrid: calConfig.color_followed_hybrid,
+      };
+    } else if (options.hasSpeakerOpportunity) {
+      colors = {
+        offline: calConfig.color_speaker,
+        online: calConfig.color_speaker_online,
+        hybrid: calConfig.color_speaker_hybrid,
+      };
+    } else if (options.isPopular) {
+      colors = {
+        offline: calConfig.color_popular,
+        online: calConfig.color_popular_online,
+        hybrid: calConfig.color_popular_hybrid,
+      };
+    } else {
+      // 興味マッチ
+      colors = {
+        offline: calConfig.color_interest,
+        online: calConfig.color_interest_online,
+        hybrid: calConfig.color_interest_hybrid,
+      };
+    }
 
-    if (options.hasSpeakerOpportunity) {
-      return isOnline ? calConfig.color_speaker_online : calConfig.color_speaker;
+    if (venueType === "online") {
+      return colors.online;
     }
-    if (options.isPopular) {
-      return isOnline ? calConfig.color_popular_online : calConfig.color_popular;
+    if (venueType === "hybrid") {
+      return colors.hybrid ?? colors.offline;
     }
-    // 興味マッチ
-    return isOnline ? calConfig.color_interest_online : calConfig.color_interest;
+    return colors.offline;
+  }
+
+  /**
+   * カレンダーに登録するタイトルを作成 (定員状況のアラート後、状況が続いている間は先頭に表示)
+   * 中止・延期したイベントは prefixEventSummary で付けた接頭辞を残す
+   */
+  private buildSummary(event: EnrichedEvent): string {
+    if (event.cancellation) {
+      const { cancelled_prefix, postponed_prefix } = this.config.cancellation;
+      const prefix = event.cancellation.kind === "postponed" ? postponed_prefix : cancelled_prefix;
+      return `${prefix} ${event.title}`;
+    }
+    switch (event.capacity_marker) {
+      case "seats_available":
+        return `[空席あり] ${event.title}`;
+      case "filling_up":
+        return `[残りわずか] ${event.title}`;
+      default:
+        return event.title;
+    }
+  }
+
+  /**
+   * カレンダーに登録する説明文を作成
+   */
+  private buildDescription(event: EnrichedEvent): string {
+    return [
+      `connpass URL: ${event.url}`,
+      "",
+      event.changes ? `📝 変更: ${formatChanges(event.changes)}` : "",
+      event.capacity_marker
+        ? `🪑 定員状況: ${event.accepted}/${event.limit}人 (補欠${event.waiting}人)`
+        : "",
+      event.speaker_opportunity?.has_opportunity ? "🎤 登壇可能性: あり" : "",
+      event.interest_match?.llm_reason
+        ? `興味マッチング理由: ${event.interest_match.llm_reason}`
+        : "",
+      event.matched_watches.length > 0 ? `👀 ウォッチ: ${event.matched_watches.join(", ")}` : "",
+      event.geo?.distance_km != null ? `📏 ${event.geo.origin}から${event.geo.distance_km}km` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
   }
 
   /**
@@ -307,16 +379,7 @@ export class GoogleCalendarClient {
     const targetCalendarId = this.config.google_calendar.calendar_id;
 
     // イベントの説明文を作成
-    const description = [
-      `connpass URL: ${event.url}`,
-      "",
-      event.speaker_opportunity?.has_opportunity ? "🎤 登壇可能性: あり" : "",
-      event.interest_match?.llm_reason
-        ? `興味マッチング理由: ${event.interest_match.llm_reason}`
-        : "",
-    ]
-      .filter(Boolean)
-      .join("\n");
+    const description = this.buildDescription(event);
 
     const calendarEvent: {
       summary: string;
@@ -327,7 +390,7 @@ export class GoogleCalendarClient {
       source: { title: string; url: string };
       colorId?: string;
     } = {
-      summary: event.title,
+      summary: this.buildSummary(event),
       description,
       location: event.place ?? null,
       start: {
@@ -393,16 +456,7 @@ export class GoogleCalendarClient {
     const targetCalendarId = this.config.google_calendar.calendar_id;
 
     // イベントの説明文を作成
-    const description = [
-      `connpass URL: ${event.url}`,
-      "",
-      event.speaker_opportunity?.has_opportunity ? "🎤 登壇可能性: あり" : "",
-      event.interest_match?.llm_reason
-        ? `興味マッチング理由: ${event.interest_match.llm_reason}`
-        : "",
-    ]
-      .filter(Boolean)
-      .join("\n");
+    const description = this.buildDescription(event);
 
     const calendarEvent: {
       summary: string;
@@ -413,7 +467,7 @@ export class GoogleCalendarClient {
       source: { title: string; url: string };
       colorId?: string;
     } = {
-      summary: event.title,
+      summary: this.buildSummary(event),
       description,
       location: event.place ?? null,
       start: {
@@ -458,6 +512,46 @@ export class GoogleCalendarClient {
     }
   }
 
+  /**
+   * カレンダーのイベントのタイトルと説明文のみを更新 (色などはそのまま)
+   * @returns 更新した場合は true (カレンダー連携が無効な場合は false)
+   */
+  async patchEventDetails(calendarEventId: string, event: EnrichedEvent): Promise<boolean> {
+    if (!this.config.google_calendar.enabled) {
+      logger.debug({ eventId: event.id }, "Calendar integration disabled");
+      return false;
+    }
+
+    const client = await this.initOAuth2Client();
+    const calendar = google.calendar({ version: "v3", auth: client });
+    const targetCalendarId = this.config.google_calendar.calendar_id;
+
+    try {
+      await googleCalendarRateLimiter.schedule(() =>
+        calendar.events.patch({
+          calendarId: targetCalendarId,
+          eventId: calendarEventId,
+          requestBody: {
+            summary: this.buildSummary(event),
+            description: this.buildDescription(event),
+          },
+        }),
+      );
+
+      logger.info(
+        { eventId: event.id, calendarEventId },
+        "Event details patched in Google Calendar",
+      );
+      return true;
+    } catch (error) {
+      logger.error(
+        { error, eventId: event.id, calendarEventId },
+        "Failed to patch event in calendar",
+      );
+      throw error;
+    }
+  }
+
   /**
    * 既存のイベントを検索 (タイトルと日時で判定)
    * @returns 既存イベントのカレンダーID (見つからなければnull)
@@ -505,6 +599,44 @@ export class GoogleCalendarClient {
     return existingId !== null;
   }
 
+  /**
+   * カレンダーのイベントのタイトルに接頭辞を付ける (付与済みの場合は何もしない)
+   */
+  async prefixEventSummary(calendarEventId: string, prefix: string): Promise<boolean> {
+    if (!this.config.google_calendar.enabled) {
+      logger.debug("Calendar integration disabled");
+      return false;
+    }
+
+    const client = await this.initOAuth2Client();
+    const calendar = google.calendar({ version: "v3", auth: client });
+    const targetCalendarId = this.config.google_calendar.calendar_id;
+
+    try {
+      const current = await googleCalendarRateLimiter.schedule(() =>
+        calendar.events.get({ calendarId: targetCalendarId, eventId: calendarEventId }),
+      );
+      const summary = current.data.summary ?? "";
+      if (summary.startsWith(prefix)) {
+        return true;
+      }
+
+      await googleCalendarRateLimiter.schedule(() =>
+        calendar.events.patch({
+          calendarId: targetCalendarId,
+          eventId: calendarEventId,
+          requestBody: { summary: `${prefix} ${summary}` },
+        }),
+      );
+
+      logger.info({ calendarEventId, prefix }, "Event summary prefixed in Google Calendar");
+      return true;
+    } catch (error) {
+      logger.error({ error, calendarEventId }, "Failed to prefix event summary in calendar");
+      return false;
+    }
+  }
+
   /**
    * カレンダーのイベントを削除
    */
@@ -1,34 +1,298 @@
 import { z } from "zod";
 
+const stringOrArray = z.union([z.string(), z.array(z.string())]);
+
+/**
+ * 日付スイープとは別に取得する監視クエリ
+ */
+export const watchSchema = z
+  .object({
+    name: z.string().min(1, "watch name is required"),
+    keyword: stringOrArray.optional(),
+    keyword_or: stringOrArray.optional(),
+    group_id: z.union([z.number(), z.array(z.number())]).optional(),
+    owner_nickname: stringOrArray.optional(),
+    subdomain: stringOrArray.optional(),
+  })
+  .refine(
+    (w) =>
+      w.keyword !== undefined ||
+      w.keyword_or !== undefined ||
+      w.group_id !== undefined ||
+      w.owner_nickname !== undefined ||
+      w.subdomain !== undefined,
+    { message: "watch requires one of keyword, keyword_or, group_id, owner_nickname, subdomain" },
+  );
+
+export type Watch = z.infer<typeof watchSchema>;
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "iu");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 興味キーワード (文字列のみの場合は重み 1 で照合)
+ */
+const interestKeywordSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    // 同じキーワードとして扱う別表記
+    synonyms: z.array(z.string().min(1)).default([]),
+    // 正規表現 (大文字小文字を区別しない)
+    patterns: z
+      .array(z.string().refine(isValidRegex, { message: "invalid regular expression" }))
+      .default([]),
+    weight: z.number().min(0).default(1),
+  }),
+]);
+
+const llmProviderSchema = z.enum(["anthropic", "openai", "google", "ollama", "openrouter"]);
+
+const llmRateLimitSchema = z.object({
+  // 1分あたりのリクエスト数の上限 (省略時は Anthropic のみ 5、その他は無制限)
+  requests_per_minute: z.number().positive().optional(),
+  // 同時に実行するリクエスト数
+  max_concurrent: z.number().int().min(1).default(1),
+});
+
+/**
+ * フォールバックで順に試す LLM プロバイダ
+ */
+const llmProviderEntrySchema = z.object({
+  provider: llmProviderSchema,
+  model: z.string().optional(),
+  api_key: z.string().optional(),
+  base_url: z.string().optional(),
+  // 省略時は llm.rate_limit
+  rate_limit: llmRateLimitSchema.optional(),
+});
+
+export type LLMProviderEntry = z.infer<typeof llmProviderEntrySchema>;
+
 export const configSchema = z.object({
   connpass: z.object({
     api_key: z.string().min(1, "connpass API key is required"),
+    // APIのベースURL（スタブサーバーでの検証用）
+    base_url: z.string().url().default("https://connpass.com/api/v2/events/"),
     prefectures: z.array(z.string()).default(["tokyo"]),
     include_online: z.boolean().default(true),
     // 検索期間: hours_ahead > weeks_ahead > months_ahead の優先順
     months_ahead: z.number().min(1).max(12).optional(),
     weeks_ahead: z.number().min(1).max(52).optional(),
     hours_ahead: z.number().min(1).max(168).optional(), // 最大1週間（168時間）
+    // 名前付き監視クエリ（都道府県フィルタや1日500件上限に関係なく取得）
+    watches: z.array(watchSchema).default([]),
+    // 差分取得: 更新日時順で前回スキャン以降に更新されたイベントのみ取得
+    incremental: z
+      .object({
+        enabled: z.boolean().default(false),
+        // この時間が経過したら日付スイープ（全件取得）に戻す
+        full_scan_interval_hours: z.number().min(1).default(24),
+      })
+      .default({}),
+    // 429/5xx・ネットワークエラー時のリトライ（指数バックオフ + ジッター）
+    retry: z
+      .object({
+        max_attempts: z.number().int().min(1).default(4),
+        base_delay_ms: z.number().min(0).default(1000),
+        max_delay_ms: z.number().min(0).default(30000),
+      })
+      .default({}),
+    // 取得に失敗したリクエストの割合がこの値を超えたら終了コード1
+    max_failure_ratio: z.number().min(0).max(1).default(0.2),
   }),
 
   interests: z
     .object({
-      keywords: z.array(z.string()).default([]),
+      keywords: z.array(interestKeywordSchema).default([]),
+      // キーワードによる興味スコア (キーワードごとに最初にマッチした欄の点数 × 重みの合計、最大100)
+      keyword_scoring: z
+        .object({
+          title_points: z.number().min(0).default(30),
+          catch_points: z.number().min(0).default(20),
+          description_points: z.number().min(0).default(10),
+          // LLM のスコアとの組み合わせ方 (llm: LLM のみ, max: 高い方, weighted: 加重平均)
+          combine: z.enum(["llm", "max", "weighted"]).default("llm"),
+          // weighted の場合のキーワードのスコアの重み
+          keyword_weight: z.number().min(0).max(1).default(0.3),
+          // max / weighted の場合にマッチとみなすスコア
+          match_threshold: z.number().min(0).max(100).default(50),
+          // キーワードが1つもマッチせず、参加者数が skip_llm_max_participants 以下なら LLM 判定を省略
+          skip_llm_without_hits: z.boolean().default(false),
+          skip_llm_max_participants: z.number().int().min(0).default(20),
+        })
+        .default({}),
       // 除外キーワード（タイトルに含まれていたらスキップ）
       exclude_keywords: z.array(z.string()).default([]),
       profile: z.string().optional(),
       // 参加者数がこの値以上なら人気イベントとして興味ありとみなす
       min_participants: z.number().min(0).default(50),
+      // フォロー中のグループ (ID または URL) ・主催者 (ニックネームまたはID): LLM判定なしで登録
+      follow_groups: z.array(z.union([z.number().int(), z.string()])).default([]),
+      follow_owners: z.array(z.union([z.number().int(), z.string()])).default([]),
+      // ブロック中のグループ・主催者: 除外キーワードと同様に除外
+      block_groups: z.array(z.union([z.number().int(), z.string()])).default([]),
+      block_owners: z.array(z.union([z.number().int(), z.string()])).default([]),
+    })
+    .default({}),
+
+  // 開催形態 (オンライン/オフライン/ハイブリッド) の判定ルール
+  // 英数字のキーワードは単語境界で照合
+  venue: z
+    .object({
+      online_keywords: z
+        .array(z.string())
+        .default([
+          "オンライン",
+          "online",
+          "リモート",
+          "remote",
+          "zoom",
+          "microsoft teams",
+          "google meet",
+          "youtube live",
+          "discord",
+        ]),
+      hybrid_keywords: z
+        .array(z.string())
+        .default([
+          "ハイブリッド",
+          "hybrid",
+          "オンライン併用",
+          "現地+オンライン",
+          "会場+オンライン",
+          "現地・オンライン",
+          "オフライン・オンライン",
+          "オンライン・オフライン",
+          "オフライン/オンライン",
+          "オンライン/オフライン",
+        ]),
+    })
+    .default({}),
+
+  // 自宅・オフィスなどの拠点からの距離によるフィルタ
+  geo: z
+    .object({
+      origins: z
+        .array(
+          z.object({
+            name: z.string().min(1),
+            lat: z.number().min(-90).max(90),
+            lon: z.number().min(-180).max(180),
+            radius_km: z.number().positive(),
+          }),
+        )
+        .default([]),
+      // 全拠点の半径外のオフラインイベントの扱い (exclude: 除外, downrank: スコアを下げる)
+      // downrank では下げたスコアが interests.keyword_scoring.match_threshold 未満なら興味なしとする
+      out_of_range: z.enum(["exclude", "downrank"]).default("exclude"),
+      downrank_penalty: z.number().min(0).max(100).default(30),
+    })
+    .default({}),
+
+  // 定員状況のアラート (カレンダー登録済み・監視クエリにマッチしたイベントが対象)
+  alerts: z
+    .object({
+      enabled: z.boolean().default(true),
+      // 参加率がこの値を超えたら「まもなく満席」
+      fill_rate_threshold: z.number().min(0).max(1).default(0.9),
+    })
+    .default({}),
+
+  // 中止・延期されたイベントのカレンダー登録の扱い
+  cancellation: z
+    .object({
+      enabled: z.boolean().default(true),
+      // delete: カレンダーから削除, rename: タイトルに接頭辞を付けて残す
+      action: z.enum(["delete", "rename"]).default("rename"),
+      cancelled_prefix: z.string().default("[中止]"),
+      postponed_prefix: z.string().default("[延期]"),
     })
     .default({}),
 
   llm: z
     .object({
       enabled: z.boolean().default(true),
-      provider: z.enum(["anthropic", "openai", "google", "ollama", "openrouter"]).default("anthropic"),
+      provider: llmProviderSchema.default("anthropic"),
       model: z.string().optional(),
       api_key: z.string().optional(),
       base_url: z.string().optional(),
+      // 優先順のプロバイダ一覧 (指定時は provider / model / api_key / base_url より優先)
+      // エラー・タイムアウト・レート制限の場合に次のプロバイダを試す
+      providers: z.array(llmProviderEntrySchema).min(1).optional(),
+      fallback: z
+        .object({
+          // 1回の呼び出しのタイムアウト
+          timeout_ms: z.number().int().positive().default(60000),
+          // 失敗したプロバイダを使わない期間
+          cooldown_ms: z.number().int().min(0).default(300000),
+        })
+        .default({}),
+      // 1回のプロンプトで分析するイベント数 (1 の場合はバッチ分析しない)
+      batch_size: z.number().int().min(1).default(1),
+      // バッチのプロンプトに含めるイベント情報のトークン数の上限 (概算)
+      batch_max_tokens: z.number().int().positive().default(12000),
+      // プロバイダごとのレート制限 (max_concurrent はイベント分析の同時実行数にもなる)
+      rate_limit: llmRateLimitSchema.default({}),
+      // モデルごとの料金 (USD / 100万トークン、組み込みの料金表を上書き・追加)
+      prices: z
+        .record(z.object({ input: z.number().min(0), output: z.number().min(0) }))
+        .default({}),
+      // 1回のスキャンでの費用 (USD)・呼び出し回数の上限 (超えた分のイベントは次回に持ち越し)
+      max_cost_per_scan: z.number().positive().optional(),
+      max_calls_per_scan: z.number().int().positive().optional(),
+    })
+    .default({}),
+
+  // LLM を使わない登壇機会の判定 (LLM 無効時・LLM 判定を省略したイベントに使用)
+  speaker: z
+    .object({
+      // LLM 有効時もルールで判定し、LLM の判定と食い違うイベントを結果に表示
+      cross_check: z.boolean().default(false),
+      // 組み込みのパターンに加えて LT 枠・登壇者募集とみなすキーワード
+      lt_keywords: z.array(z.string().min(1)).default([]),
+      cfp_keywords: z.array(z.string().min(1)).default([]),
+    })
+    .default({}),
+
+  // feedback コマンドで記録した評価の反映
+  feedback: z
+    .object({
+      // LLM のプロンプトに例として含める最近の評価の件数 (0 で含めない)
+      few_shot_examples: z.number().int().min(0).default(5),
+      // グループ・キーワードごとの (高評価 − 低評価の件数) × 点数で興味スコアを補正
+      group_points: z.number().min(0).default(10),
+      keyword_points: z.number().min(0).default(5),
+      // 補正の上限 (±)
+      max_adjustment: z.number().min(0).max(100).default(20),
+      // 低評価にしたイベントをカレンダーから削除 (feedback --remove と同じ)
+      remove_disliked: z.boolean().default(false),
+    })
+    .default({}),
+
+  // 埋め込みベクトルの類似度による興味スコア (ローカルの埋め込みサーバーで計算できる)
+  embedding: z
+    .object({
+      enabled: z.boolean().default(false),
+      // ollama: Ollama の /api/embed, openai: OpenAI 互換APIの /embeddings
+      provider: z.enum(["ollama", "openai"]).default("ollama"),
+      model: z.string().default("nomic-embed-text"),
+      base_url: z.string().optional(),
+      api_key: z.string().optional(),
+      // 過去に気に入ったイベントの ID (interests.profile とともに類似度の基準にする)
+      liked_events: z.array(z.number().int()).default([]),
+      // コサイン類似度を 0-100 のスコアに変換する範囲 (min_similarity 以下は 0、max_similarity 以上は 100)
+      min_similarity: z.number().min(-1).max(1).default(0.3),
+      max_similarity: z.number().min(-1).max(1).default(0.8),
+    })
+    .refine((e) => e.min_similarity < e.max_similarity, {
+      message: "min_similarity must be less than max_similarity",
     })
     .default({}),
 
@@ -36,7 +300,7 @@ export const configSchema = z.object({
     .object({
       enabled: z.boolean().default(true),
       calendar_id: z.string().default("primary"),
-      // Google Calendar の色ID (イベント種別 × オンライン有無 = 6種類)
+      // Google Calendar の色ID (イベント種別 × 開催形態 = 12種類)
       // 1: Lavender, 2: Sage, 3: Grape, 4: Flamingo, 5: Banana
       // 6: Tangerine, 7: Peacock, 8: Graphite, 9: Blueberry, 10: Basil, 11: Tomato
       color_speaker: z.string().default("9"), // 🎤 登壇機会あり（オフライン）
@@ -45,6 +309,13 @@ export const configSchema = z.object({
       color_popular_online: z.string().default("5"), // 🔥🌐 人気イベント（オンライン）
       color_interest: z.string().optional(), // 💡 興味あり（オフライン）- 省略でデフォルト色
       color_interest_online: z.string().default("10"), // 💡🌐 興味あり（オンライン）
+      color_followed: z.string().default("11"), // ⭐ フォロー中（オフライン）
+      color_followed_online: z.string().default("1"), // ⭐🌐 フォロー中（オンライン）
+      // ハイブリッド開催 - 省略時はオフラインの色を使用
+      color_speaker_hybrid: z.string().optional(), // 🎤🔀 登壇機会あり（ハイブリッド）
+      color_popular_hybrid: z.string().optional(), // 🔥🔀 人気イベント（ハイブリッド）
+      color_interest_hybrid: z.string().optional(), // 💡🔀 興味あり（ハイブリッド）
+      color_followed_hybrid: z.string().optional(), // ⭐🔀 フォロー中（ハイブリッド）
     })
     .default({}),
 
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { detectCancellationMarker } from "./cancellation.js";
+import type { ConnpassEvent } from "./types.js";
+
+/**
+ * 告知表記の判定に使う項目 (タイトル・説明文) だけを指定したイベント
+ */
+function notice(title: string, description = ""): ConnpassEvent {
+  return { title, description } as ConnpassEvent;
+}
+
+describe("detectCancellationMarker", () => {
+  it("タイトル先頭の中止・延期表記を検出", () => {
+    for (const title of ["【中止】TypeScript 勉強会", "［開催中止］勉強会", "中止: 勉強会 #3"]) {
+      expect(detectCancellationMarker(notice(title))).toEqual({
+        kind: "cancelled",
+        reason: "marker",
+      });
+    }
+    expect(detectCancellationMarker(notice("[CANCELED] Go meetup"))?.kind).toBe("cancelled");
+    expect(detectCancellationMarker(notice("(延期) もくもく会"))?.kind).toBe("postponed");
+  });
+
+  it("タイトル中の「中止」は対象外", () => {
+    expect(detectCancellationMarker(notice("雨天中止の場合はオンライン開催"))).toBeNull();
+    expect(detectCancellationMarker(notice("中止になったプロジェクトから学ぶ"))).toBeNull();
+    expect(detectCancellationMarker(notice("【中止になった企画を語る会】"))).toBeNull();
+  });
+
+  it("説明文の告知文を検出し、注意書きは対象外", () => {
+    const cancelled = notice("勉強会", "<p>諸事情により中止となりました。</p>");
+    expect(detectCancellationMarker(cancelled)?.kind).toBe("cancelled");
+    const note = notice("BBQ 会", "<p>雨天中止の場合は前日にお知らせします</p>");
+    expect(detectCancellationMarker(note)).toBeNull();
+  });
+
+  it("中止を延期より優先", () => {
+    expect(detectCancellationMarker(notice("【延期】勉強会", "【中止】"))?.kind).toBe("cancelled");
+  });
+});
@@ -0,0 +1,54 @@
+import type { Cancellation, ConnpassEvent } from "./types.js";
+
+type CancellationKind = Cancellation["kind"];
+
+/**
+ * タイトル先頭の中止・延期表記 (【中止】, [延期], 中止: など) のパターンを作成
+ * 「雨天中止の場合…」「中止になったプロジェクトから学ぶ」のような文中の語は対象外
+ */
+function titlePattern(words: string): RegExp {
+  return new RegExp(
+    `^\\s*(?:[【[(]\\s*(?:開催)?(?:${words})\\s*[】\\])]|(?:${words})(?:[\\s:|/-]|$))`,
+    "i",
+  );
+}
+
+/** タイトルの中止・延期表記 */
+const TITLE_PATTERNS: Record<CancellationKind, RegExp> = {
+  cancelled: titlePattern("中止|cancell?ed"),
+  postponed: titlePattern("延期|postponed"),
+};
+
+/**
+ * 説明文の告知表記 (【中止】, 「中止となりました」など) のパターンを作成
+ * 本文中の「中止」は雨天中止などの注意書きにも使われるため、見出しや告知文の形に限定する
+ */
+function announcementPattern(word: string): RegExp {
+  return new RegExp(
+    `[【[(]\\s*(?:開催)?${word}\\s*[】\\])]|${word}(?:と|に)なりました|${word}(?:いた|致)します|${word}することになりました`,
+  );
+}
+
+/** 説明文の中止・延期表記 */
+const DESCRIPTION_PATTERNS: Record<CancellationKind, RegExp> = {
+  cancelled: announcementPattern("中止"),
+  postponed: announcementPattern("延期"),
+};
+
+/** 中止を延期より優先して判定する */
+const KINDS: CancellationKind[] = ["cancelled", "postponed"];
+
+/**
+ * タイトル・説明文の表記からイベントの中止・延期を判定
+ */
+export function detectCancellationMarker(event: ConnpassEvent): Cancellation | null {
+  const title = event.title.normalize("NFKC");
+  const description = event.description.normalize("NFKC");
+
+  for (const kind of KINDS) {
+    if (TITLE_PATTERNS[kind].test(title) || DESCRIPTION_PATTERNS[kind].test(description)) {
+      return { kind, reason: "marker" };
+    }
+  }
+  return null;
+}
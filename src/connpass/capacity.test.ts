@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { CapacityRecord } from "../db/capacity.js";
+import { detectCapacityAlert, resolveCapacityMarker } from "./capacity.js";
+import type { ConnpassEvent } from "./types.js";
+
+/**
+ * 定員状況 (定員・参加者数・補欠者数) だけを指定したイベント
+ */
+function seats(limit: number | null, accepted: number, waiting = 0): ConnpassEvent {
+  return { id: 1, limit, accepted, waiting } as ConnpassEvent;
+}
+
+function record(overrides: Partial<CapacityRecord> = {}): CapacityRecord {
+  return {
+    id: 1,
+    event_id: 1,
+    limit_count: 50,
+    accepted: 50,
+    waiting: 0,
+    recorded_at: "2025-01-01T00:00:00",
+    ...overrides,
+  };
+}
+
+describe("detectCapacityAlert", () => {
+  it("満席から空席が出たら seats_available", () => {
+    const event = seats(50, 48);
+    const alert = detectCapacityAlert(event, record(), 0.9);
+    expect(alert).toEqual({
+      type: "seats_available",
+      limit: 50,
+      accepted: 48,
+      waiting: 0,
+      previous_accepted: 50,
+      previous_waiting: 0,
+    });
+  });
+
+  it("満席のまま定員が増えたら seats_available", () => {
+    expect(detectCapacityAlert(seats(60, 50), record(), 0.9)?.type).toBe("seats_available");
+  });
+
+  it("補欠が減ったら seats_available", () => {
+    const event = seats(50, 49, 2);
+    const previous = record({ accepted: 49, waiting: 5 });
+    expect(detectCapacityAlert(event, previous, 0.9)?.type).toBe("seats_available");
+  });
+
+  it("補欠ありのまま変化がなければアラートしない", () => {
+    const event = seats(50, 30, 3);
+    const previous = record({ accepted: 30, waiting: 3 });
+    expect(detectCapacityAlert(event, previous, 0.9)).toBeNull();
+  });
+
+  it("満席・定員なしはアラートしない", () => {
+    expect(detectCapacityAlert(seats(50, 50), null, 0.9)).toBeNull();
+    expect(detectCapacityAlert(seats(null, 10), null, 0.9)).toBeNull();
+  });
+
+  it("参加率が閾値を超えたら filling_up", () => {
+    const event = seats(50, 46);
+    const previous = record({ accepted: 40 });
+    expect(detectCapacityAlert(event, previous, 0.9)?.type).toBe("filling_up");
+    expect(detectCapacityAlert(event, null, 0.9)?.type).toBe("filling_up");
+  });
+
+  it("前回も閾値以上なら filling_up を繰り返さない", () => {
+    const event = seats(50, 47);
+    const previous = record({ accepted: 46 });
+    expect(detectCapacityAlert(event, previous, 0.9)).toBeNull();
+  });
+});
+
+describe("resolveCapacityMarker", () => {
+  it("新たなアラートがあればその種類", () => {
+    const event = seats(50, 48);
+    const alert = detectCapacityAlert(event, record(), 0.9);
+    expect(resolveCapacityMarker(event, alert, null, 0.9)).toBe("seats_available");
+  });
+
+  it("満席でない間は前回の表示を続ける", () => {
+    const event = seats(50, 45);
+    expect(resolveCapacityMarker(event, null, "seats_available", 0.9)).toBe("seats_available");
+  });
+
+  it("満席に戻ったら表示を外す", () => {
+    const event = seats(50, 50);
+    expect(resolveCapacityMarker(event, null, "seats_available", 0.9)).toBeNull();
+  });
+
+  it("参加率が閾値を下回ったら filling_up を外す", () => {
+    const event = seats(50, 30);
+    expect(resolveCapacityMarker(event, null, "filling_up", 0.9)).toBeNull();
+    expect(resolveCapacityMarker(event, null, "seats_available", 0.9)).toBe("seats_available");
+  });
+});
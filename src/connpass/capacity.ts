@@ -0,0 +1,74 @@
+import type { CapacityRecord } from "../db/capacity.js";
+import type { CapacityAlert, ConnpassEvent } from "./types.js";
+
+/**
+ * 満席または補欠ありだったイベントの空席が増えた・補欠が減ったか
+ */
+function hasSeatsOpened(event: ConnpassEvent, limit: number, previous: CapacityRecord): boolean {
+  const previousLimit = previous.limit_count;
+  const wasFull =
+    (previousLimit !== null && previous.accepted >= previousLimit) || previous.waiting > 0;
+  const previousFree = previousLimit !== null ? previousLimit - previous.accepted : 0;
+  return wasFull && (limit - event.accepted > previousFree || event.waiting < previous.waiting);
+}
+
+/**
+ * 前回スキャン時からの定員状況の変化を判定
+ * - 満席または補欠ありだったイベントの空席が増えた・補欠が減った → seats_available
+ * - 参加率が閾値を超えた (まだ満席ではない) → filling_up
+ * 前回から変化がない場合はアラートしない
+ */
+export function detectCapacityAlert(
+  event: ConnpassEvent,
+  previous: CapacityRecord | null,
+  fillRateThreshold: number,
+): CapacityAlert | null {
+  const limit = event.limit;
+  if (!limit || limit <= 0 || event.accepted >= limit) {
+    return null;
+  }
+
+  const base = {
+    limit,
+    accepted: event.accepted,
+    waiting: event.waiting,
+    previous_accepted: previous?.accepted ?? null,
+    previous_waiting: previous?.waiting ?? null,
+  };
+
+  if (previous && hasSeatsOpened(event, limit, previous)) {
+    return { type: "seats_available", ...base };
+  }
+
+  const fillRate = event.accepted / limit;
+  const previousFillRate = previous?.limit_count ? previous.accepted / previous.limit_count : null;
+  const crossedThreshold = previousFillRate === null || previousFillRate < fillRateThreshold;
+  if (fillRate >= fillRateThreshold && crossedThreshold) {
+    return { type: "filling_up", ...base };
+  }
+
+  return null;
+}
+
+/**
+ * カレンダーのタイトルに表示する定員状況
+ * 新たなアラートがなくても、前回表示した状況が続いている間 (空席あり: 満席でない、残りわずか: 参加率が閾値以上で満席でない) は表示を続ける
+ */
+export function resolveCapacityMarker(
+  event: ConnpassEvent,
+  alert: CapacityAlert | null,
+  previousMarker: CapacityAlert["type"] | null,
+  fillRateThreshold: number,
+): CapacityAlert["type"] | null {
+  if (alert) {
+    return alert.type;
+  }
+  const limit = event.limit;
+  if (!previousMarker || !limit || limit <= 0 || event.accepted >= limit) {
+    return null;
+  }
+  if (previousMarker === "filling_up" && event.accepted / limit < fillRateThreshold) {
+    return null;
+  }
+  return previousMarker;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { diffEvents, formatChanges } from "./changes.js";
+import type { ConnpassEvent } from "./types.js";
+
+/** 前回保存時のイベント (変更履歴を記録する項目と、記録しない参加者数・更新日時) */
+const saved = {
+  id: 1,
+  title: "TypeScript 勉強会",
+  started_at: "2025-01-10T19:00:00+09:00",
+  ended_at: "2025-01-10T21:00:00+09:00",
+  place: "会議室A",
+  address: "東京都渋谷区渋谷2-21-1",
+  limit: 30,
+  description: "<p>概要</p>",
+  accepted: 10,
+  updated_at: "2025-01-01T00:00:00+09:00",
+} as ConnpassEvent;
+
+function revise(fields: Partial<ConnpassEvent>): ConnpassEvent {
+  return { ...saved, ...fields };
+}
+
+describe("diffEvents", () => {
+  it("変更がなければ空", () => {
+    expect(diffEvents(saved, revise({}))).toEqual([]);
+  });
+
+  it("変更された項目の前後の値を記録", () => {
+    expect(diffEvents(saved, revise({ place: "会議室B", limit: null }))).toEqual([
+      { field: "place", before: "会議室A", after: "会議室B" },
+      { field: "limit", before: "30", after: null },
+    ]);
+  });
+
+  it("説明文は変更の有無のみ記録", () => {
+    expect(diffEvents(saved, revise({ description: "<p>概要 (更新)</p>" }))).toEqual([
+      { field: "description", before: null, after: null },
+    ]);
+  });
+
+  it("参加者数・更新日時の変化は記録しない", () => {
+    const current = revise({ accepted: 20, updated_at: "2025-01-02T00:00:00+09:00" });
+    expect(diffEvents(saved, current)).toEqual([]);
+  });
+});
+
+describe("formatChanges", () => {
+  it("日時は日本時間で、同じ日なら時刻のみ表示", () => {
+    const current = revise({
+      started_at: "2025-01-10T10:30:00Z",
+      ended_at: "2025-01-10T15:10:00Z",
+    });
+    expect(formatChanges(diffEvents(saved, current))).toBe(
+      "開始時刻 19:00→19:30, 終了時刻 1/10 21:00→1/11 00:10",
+    );
+  });
+
+  it("値がなくなった項目は「なし」と表示", () => {
+    const changes = diffEvents(saved, revise({ address: null, description: "" }));
+    expect(formatChanges(changes)).toBe("住所 東京都渋谷区渋谷2-21-1→なし, 説明文");
+  });
+});
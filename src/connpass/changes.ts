@@ -0,0 +1,88 @@
+import type { ConnpassEvent, EventChange } from "./types.js";
+
+/** 変更を記録する項目と表示名 */
+const FIELD_LABELS: Record<EventChange["field"], string> = {
+  title: "タイトル",
+  started_at: "開始時刻",
+  ended_at: "終了時刻",
+  place: "会場",
+  address: "住所",
+  limit: "定員",
+  description: "説明文",
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as EventChange["field"][];
+
+function toValue(value: string | number | null): string | null {
+  return value === null ? null : String(value);
+}
+
+/**
+ * 前回保存時のイベントとの差分を取得
+ */
+export function diffEvents(previous: ConnpassEvent, current: ConnpassEvent): EventChange[] {
+  const changes: EventChange[] = [];
+  for (const field of FIELDS) {
+    const before = toValue(previous[field]);
+    const after = toValue(current[field]);
+    if (before === after) {
+      continue;
+    }
+    changes.push(
+      field === "description" ? { field, before: null, after: null } : { field, before, after },
+    );
+  }
+  return changes;
+}
+
+/** 開催日時は実行環境のタイムゾーンによらず日本時間で表示 */
+const TOKYO_DATE_TIME = new Intl.DateTimeFormat("en-US", {
+  timeZone: "Asia/Tokyo",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+function toTokyoDateTime(value: string): { day: string; date: string; time: string } {
+  const parts = TOKYO_DATE_TIME.formatToParts(new Date(value));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    day: `${get("year")}-${get("month")}-${get("day")}`,
+    date: `${get("month")}/${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+  };
+}
+
+/**
+ * 日時の変更を表示用に整形 (同じ日なら時刻のみ)
+ */
+function formatDateTimeChange(before: string, after: string): string {
+  const from = toTokyoDateTime(before);
+  const to = toTokyoDateTime(after);
+  if (from.day === to.day) {
+    return `${from.time}→${to.time}`;
+  }
+  return `${from.date} ${from.time}→${to.date} ${to.time}`;
+}
+
+/**
+ * 変更内容を表示用に整形 (例: "開始時刻 19:00→19:30, 説明文")
+ */
+export function formatChanges(changes: EventChange[]): string {
+  return changes
+    .map(({ field, before, after }) => {
+      const label = FIELD_LABELS[field];
+      if (field === "description") {
+        return label;
+      }
+      if ((field === "started_at" || field === "ended_at") && before && after) {
+        return `${label} ${formatDateTimeChange(before, after)}`;
+      }
+      return `${label} ${before ?? "なし"}→${after ?? "なし"}`;
+    })
+    .join(", ");
+}
@@ -0,0 +1,149 @@
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { configSchema } from "../config/schema.js";
+import { ConnpassApiError, ConnpassClient, parseRetryAfter } from "./client.js";
+import type { ConnpassApiResponse } from "./types.js";
+
+// レート制限の待機を挟まずにリクエストする
+vi.mock("../utils/rate-limiter.js", () => ({
+  connpassRateLimiter: { schedule: <T>(fn: () => Promise<T>) => fn() },
+}));
+
+describe("parseRetryAfter", () => {
+  it("秒数をミリ秒に変換", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter("0")).toBe(0);
+  });
+
+  it("HTTP 日付は現在時刻からの差", () => {
+    const date = new Date(Date.now() + 10_000).toUTCString();
+    const ms = parseRetryAfter(date);
+    expect(ms).toBeGreaterThan(8000);
+    expect(ms).toBeLessThanOrEqual(10_000);
+    expect(parseRetryAfter("Thu, 01 Jan 1970 00:00:00 GMT")).toBe(0);
+  });
+
+  it("未指定・不正な値は null", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("")).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+/** event_id=42 の取得結果 (スタブサーバーが 200 で返す) */
+const RESPONSE: ConnpassApiResponse = {
+  results_returned: 1,
+  results_available: 1,
+  results_start: 1,
+  events: [
+    {
+      id: 42,
+      title: "TypeScript 勉強会",
+      catch: "",
+      description: "",
+      url: "https://example.connpass.com/event/42/",
+      hash_tag: "",
+      started_at: "2025-01-10T19:00:00+09:00",
+      ended_at: "2025-01-10T21:00:00+09:00",
+      limit: 30,
+      event_type: "participation",
+      accepted: 10,
+      waiting: 0,
+      updated_at: "2025-01-01T12:00:00+09:00",
+      owner_id: 1,
+      owner_nickname: "owner",
+      owner_display_name: "owner",
+      place: "会議室",
+      address: "東京都渋谷区渋谷2-21-1",
+      lat: null,
+      lon: null,
+      group: null,
+    },
+  ],
+};
+
+describe("ConnpassClient retry", () => {
+  let server: Server;
+  let responses: Array<{ status: number; headers?: Record<string, string> }>;
+  let hits: number;
+  /** 常に 500 を返す日付 (ymd パラメータ) */
+  let failingYmd: string | null;
+
+  function createClient(maxAttempts = 4): ConnpassClient {
+    const { port } = server.address() as AddressInfo;
+    const config = configSchema.parse({
+      connpass: {
+        api_key: "test",
+        base_url: `http://127.0.0.1:${port}/events/`,
+        hours_ahead: 36,
+        retry: { max_attempts: maxAttempts, base_delay_ms: 0 },
+      },
+    });
+    return new ConnpassClient(config, { now: () => new Date(2025, 0, 10, 12) });
+  }
+
+  beforeEach(async () => {
+    responses = [];
+    hits = 0;
+    failingYmd = null;
+    server = createServer((req, res) => {
+      hits++;
+      const ymd = new URL(req.url ?? "/", "http://127.0.0.1").searchParams.get("ymd");
+      const next =
+        failingYmd !== null && ymd === failingYmd
+          ? { status: 500 }
+          : (responses.shift() ?? { status: 200 });
+      res.writeHead(next.status, { "Content-Type": "application/json", ...next.headers });
+      res.end(next.status === 200 ? JSON.stringify(RESPONSE) : "{}");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("5xx はリトライして取得できる", async () => {
+    responses = [{ status: 503 }, { status: 502 }];
+    const events = await createClient().getEventsByIds([42]);
+    expect(events.map((e) => e.id)).toEqual([42]);
+    expect(hits).toBe(3);
+  });
+
+  it("Retry-After に従ってリトライする", async () => {
+    responses = [{ status: 429, headers: { "Retry-After": "0" } }];
+    const events = await createClient().getEventsByIds([42]);
+    expect(events).toHaveLength(1);
+    expect(hits).toBe(2);
+  });
+
+  it("4xx (429 以外) はリトライしない", async () => {
+    responses = [{ status: 404 }];
+    await expect(createClient().getEventsByIds([42])).rejects.toMatchObject({ status: 404 });
+    expect(hits).toBe(1);
+  });
+
+  it("最大試行回数で諦める", async () => {
+    responses = [
+      { status: 429, headers: { "Retry-After": "0" } },
+      { status: 429, headers: { "Retry-After": "0" } },
+    ];
+    const error = await createClient(2)
+      .getEventsByIds([42])
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ConnpassApiError);
+    expect((error as ConnpassApiError).status).toBe(429);
+    expect(hits).toBe(2);
+  });
+
+  it("失敗した日付を記録して残りの日付の取得を続ける", async () => {
+    failingYmd = "20250110";
+    const result = await createClient(2).getEvents();
+    expect(result.failures).toEqual([
+      { target: "20250110", error: "connpass API error: 500 Internal Server Error", status: 500 },
+    ]);
+    expect(result.completeDates).toEqual(["20250111"]);
+    expect(result.fetchedEventIds).toEqual(new Set([42]));
+  });
+});
@@ -1,5 +1,7 @@
 import { addHours, addMonths, addWeeks, format } from "date-fns";
-import type { Config } from "../config/schema.js";
+import type { Config, Watch } from "../config/schema.js";
+import type { Cassette } from "../utils/cassette.js";
+import { distanceKm, parseCoordinate } from "../utils/geo.js";
 import { createChildLogger } from "../utils/logger.js";
 import { connpassRateLimiter } from "../utils/rate-limiter.js";
 import type {
@@ -7,28 +9,170 @@ import type {
   ConnpassEvent,
   ConnpassSearchParams,
   EnrichedEvent,
+  GeoMatch,
   Prefecture,
+  Venue,
 } from "./types.js";
+import { RuleBasedVenueClassifier, type VenueClassifier } from "./venue.js";
 
 const logger = createChildLogger("connpass");
 
-const CONNPASS_API_BASE = "https://connpass.com/api/v2/events/";
+/**
+ * connpass API のエラーレスポンス
+ */
+export class ConnpassApiError extends Error {
+  readonly status: number;
+  /** Retry-After ヘッダで指定された待機時間 (ミリ秒) */
+  readonly retryAfterMs: number | null;
+
+  constructor(status: number, statusText: string, retryAfterMs: number | null) {
+    super(`connpass API error: ${status} ${statusText}`);
+    this.name = "ConnpassApiError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * 取得に失敗したリクエスト
+ */
+export interface FetchFailure {
+  /** 失敗した取得対象 (日付 yyyyMMdd, "watch:<name>", "updated") */
+  target: string;
+  error: string;
+  status?: number;
+}
+
+/**
+ * ページング取得の結果
+ */
+interface PageFetchResult {
+  events: ConnpassEvent[];
+  /** 上限に達せず最後まで取得できたか */
+  complete: boolean;
+}
+
+/**
+ * イベント取得結果
+ */
+export interface EventFetchResult {
+  events: EnrichedEvent[];
+  /** full: 日付スイープ, incremental: 更新日時順の差分取得 */
+  mode: "full" | "incremental";
+  /** 取得したイベントの最新の更新日時 (次回の差分取得カーソル) */
+  latestUpdatedAt: string | null;
+  /** 取得対象の数 (日付・監視クエリ) */
+  targetCount: number;
+  /** リトライしても取得できなかった対象 */
+  failures: FetchFailure[];
+  /** 上限に達せず最後まで取得できた日付 (yyyyMMdd)。差分取得時は空 */
+  completeDates: string[];
+  /** API が返したイベントのID (期間・オンラインのフィルタ前) */
+  fetchedEventIds: Set<number>;
+}
+
+/**
+ * Retry-After ヘッダ (秒数または HTTP 日付) をミリ秒に変換
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * リトライ対象のエラーかどうか (429/5xx・ネットワークエラー)
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof ConnpassApiError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * エラーを取得失敗情報に変換
+ */
+function toFetchFailure(target: string, error: unknown): FetchFailure {
+  const failure: FetchFailure = {
+    target,
+    error: error instanceof Error ? error.message : String(error),
+  };
+  if (error instanceof ConnpassApiError) {
+    failure.status = error.status;
+  }
+  return failure;
+}
+
+/**
+ * イベント群の最新の更新日時を取得
+ */
+function getLatestUpdatedAt(events: ConnpassEvent[]): string | null {
+  let latest: ConnpassEvent | null = null;
+  for (const event of events) {
+    if (!latest || new Date(event.updated_at) > new Date(latest.updated_at)) {
+      latest = event;
+    }
+  }
+  return latest?.updated_at ?? null;
+}
 
 /**
  * connpass API クライアント
  */
 export class ConnpassClient {
   private config: Config;
+  private cassette: Cassette | null;
+  private now: () => Date;
+  private venueClassifier: VenueClassifier;
 
-  constructor(config: Config) {
+  /**
+   * @param options.cassette レスポンスの記録・再生に使うカセット
+   * @param options.now 現在日時 (カセット再生時に記録時の日付範囲を再現するため)
+   * @param options.venueClassifier 開催形態の分類器 (省略時は設定のキーワードによるルールベース)
+   */
+  constructor(
+    config: Config,
+    options: {
+      cassette?: Cassette | null;
+      now?: () => Date;
+      venueClassifier?: VenueClassifier;
+    } = {},
+  ) {
     this.config = config;
+    this.cassette = options.cassette ?? null;
+    this.now = options.now ?? (() => new Date());
+    this.venueClassifier = options.venueClassifier ?? new RuleBasedVenueClassifier(config.venue);
+  }
+
+  /**
+   * リトライまでの待機時間を計算
+   * Retry-After があればそれに従い、なければ指数バックオフ + ジッター
+   */
+  private getRetryDelay(attempt: number, error: unknown): number {
+    if (error instanceof ConnpassApiError && error.retryAfterMs !== null) {
+      return error.retryAfterMs;
+    }
+    const { base_delay_ms, max_delay_ms } = this.config.connpass.retry;
+    const backoff = Math.min(max_delay_ms, base_delay_ms * 2 ** (attempt - 1));
+    return backoff / 2 + Math.random() * (backoff / 2);
   }
 
   /**
-   * APIリクエストを実行
+   * APIリクエストを実行 (失敗時はリトライ)
    */
   private async fetchEvents(params: ConnpassSearchParams): Promise<ConnpassApiResponse> {
-    const url = new URL(CONNPASS_API_BASE);
+    const url = new URL(this.config.connpass.base_url);
 
     for (const [key, value] of Object.entries(params)) {
       if (value !== undefined) {
@@ -43,20 +187,10 @@ export class ConnpassClient {
 
     logger.debug({ url: url.toString() }, "Fetching events");
 
-    const response = await connpassRateLimiter.schedule(async () => {
-      const res = await fetch(url.toString(), {
-        headers: {
-          "User-Agent": "connpass-watcher/0.1.0",
-          "X-API-Key": this.config.connpass.api_key,
-        },
-      });
-
-      if (!res.ok) {
-        throw new Error(`connpass API error: ${res.status} ${res.statusText}`);
-      }
-
-      return res.json() as Promise<ConnpassApiResponse>;
-    });
+    // API キーはヘッダで送るため URL をそのままカセットのキーにできる
+    const response = this.cassette
+      ? await this.cassette.through("connpass", url.toString(), () => this.requestWithRetry(url))
+      : await this.requestWithRetry(url);
 
     logger.debug(
       {
@@ -69,13 +203,54 @@ export class ConnpassClient {
     return response;
   }
 
+  /**
+   * HTTPリクエストを実行 (429/5xx・ネットワークエラー時はリトライ)
+   */
+  private async requestWithRetry(url: URL): Promise<ConnpassApiResponse> {
+    const maxAttempts = this.config.connpass.retry.max_attempts;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await connpassRateLimiter.schedule(async () => {
+          const res = await fetch(url.toString(), {
+            headers: {
+              "User-Agent": "connpass-watcher/0.1.0",
+              "X-API-Key": this.config.connpass.api_key,
+            },
+          });
+
+          if (!res.ok) {
+            throw new ConnpassApiError(
+              res.status,
+              res.statusText,
+              parseRetryAfter(res.headers.get("Retry-After")),
+            );
+          }
+
+          return res.json() as Promise<ConnpassApiResponse>;
+        });
+      } catch (error) {
+        if (attempt >= maxAttempts || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(attempt, error);
+        logger.warn(
+          { attempt, maxAttempts, delayMs: Math.round(delay), error: String(error) },
+          "connpass request failed, retrying",
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
   /**
    * 今日から指定期間先までの日付リストを生成
    * hours_ahead > weeks_ahead > months_ahead の優先順
    */
   private getTargetDates(): string[] {
     const dates: string[] = [];
-    const now = new Date();
+    const now = this.now();
     const today = new Date(now);
     today.setHours(0, 0, 0, 0);
 
@@ -99,44 +274,59 @@ export class ConnpassClient {
   }
 
   /**
-   * イベントがオンライン開催かどうかを判定
-   */
-  private isOnlineEvent(event: ConnpassEvent): boolean {
-    const onlineKeywords = ["オンライン", "online", "リモート", "remote", "zoom", "teams", "meet"];
-    const place = event.place?.toLowerCase() ?? "";
-    const address = event.address?.toLowerCase() ?? "";
-    const title = event.title.toLowerCase();
-
-    return onlineKeywords.some(
-      (keyword) =>
-        place.includes(keyword) ||
-        address.includes(keyword) ||
-        title.includes(keyword.toLowerCase()),
-    );
-  }
-
-  /**
-   * イベントが東京開催かどうかを判定
+   * 拠点からの距離を判定
+   * 座標がないイベントは住所から判定した都道府県が監視対象かどうかにフォールバック
    */
-  private isTokyoEvent(event: ConnpassEvent): boolean {
-    const tokyoKeywords = ["東京", "tokyo", "渋谷", "新宿", "池袋", "秋葉原", "品川", "六本木"];
-    const place = event.place?.toLowerCase() ?? "";
-    const address = event.address?.toLowerCase() ?? "";
+  private getGeoMatch(event: ConnpassEvent, venue: Venue): GeoMatch {
+    const coordinate = parseCoordinate(event.lat, event.lon);
+    if (!coordinate) {
+      const inRange =
+        venue.prefecture !== null && this.config.connpass.prefectures.includes(venue.prefecture);
+      return { origin: null, distance_km: null, in_range: inRange };
+    }
 
-    return tokyoKeywords.some(
-      (keyword) => place.includes(keyword) || address.includes(keyword.toLowerCase()),
-    );
+    let nearest: GeoMatch = { origin: null, distance_km: null, in_range: false };
+    for (const origin of this.config.geo.origins) {
+      const distance = distanceKm(coordinate, origin);
+      if (nearest.distance_km === null || distance < nearest.distance_km) {
+        nearest = {
+          origin: origin.name,
+          distance_km: Math.round(distance * 10) / 10,
+          in_range: nearest.in_range || distance <= origin.radius_km,
+        };
+      } else if (distance <= origin.radius_km) {
+        nearest.in_range = true;
+      }
+    }
+    return nearest;
   }
 
   /**
    * イベントを enriched 形式に変換
    */
-  private enrichEvent(event: ConnpassEvent): EnrichedEvent {
-    return {
+  private enrichEvent(
+    event: ConnpassEvent,
+    options: { matchedWatches?: string[] | undefined; fromPrefectureSweep: boolean },
+  ): EnrichedEvent {
+    // 都道府県フィルタで取得したイベントのみフィルタを開催地の手がかりにする
+    const prefectureFilter = options.fromPrefectureSweep
+      ? this.getTargetPrefectures().filter((p) => p !== "online")
+      : [];
+    const venue = this.venueClassifier.classify(event, { prefectureFilter });
+    const enriched: EnrichedEvent = {
       ...event,
-      is_online: this.isOnlineEvent(event),
-      is_tokyo: this.isTokyoEvent(event),
+      is_online: venue.type === "online",
+      is_tokyo: venue.prefecture === "tokyo",
+      venue,
+      matched_watches: options.matchedWatches ?? [],
     };
+
+    // 拠点が設定されている場合のみ会場のあるイベントの距離を判定
+    if (venue.type !== "online" && this.config.geo.origins.length > 0) {
+      enriched.geo = this.getGeoMatch(event, venue);
+    }
+
+    return enriched;
   }
 
   /**
@@ -144,7 +334,7 @@ export class ConnpassClient {
    */
   private filterEvents(events: EnrichedEvent[]): EnrichedEvent[] {
     // 今日の0時0分を基準に過去イベントを判定
-    const today = new Date();
+    const today = this.now();
     today.setHours(0, 0, 0, 0);
 
     return events.filter((event) => {
@@ -154,8 +344,9 @@ export class ConnpassClient {
         return false;
       }
 
-      // オンラインイベントは include_online が false の場合は除外
-      if (event.is_online && !this.config.connpass.include_online) {
+      // オンラインイベントは include_online が false の場合は除外 (監視クエリにマッチしたイベントは除く)
+      const isWatched = event.matched_watches.length > 0;
+      if (event.is_online && !this.config.connpass.include_online && !isWatched) {
         return false;
       }
 
@@ -184,53 +375,251 @@ export class ConnpassClient {
   }
 
   /**
-   * イベントを取得
+   * 監視クエリを検索パラメータに変換
    */
-  async getEvents(): Promise<EnrichedEvent[]> {
-    const targetDates = this.getTargetDates();
-    const prefectures = this.getTargetPrefectures();
-    const allEvents: ConnpassEvent[] = [];
-
-    logger.info({ dateRange: `${targetDates[0]} - ${targetDates[targetDates.length - 1]}`, prefectures }, "Fetching events");
+  private buildWatchParams(watch: Watch): ConnpassSearchParams {
+    const params: ConnpassSearchParams = {};
+    if (watch.keyword !== undefined) params.keyword = watch.keyword;
+    if (watch.keyword_or !== undefined) params.keyword_or = watch.keyword_or;
+    if (watch.group_id !== undefined) params.group_id = watch.group_id;
+    if (watch.owner_nickname !== undefined) params.owner_nickname = watch.owner_nickname;
+    if (watch.subdomain !== undefined) params.subdomain = watch.subdomain;
+    return params;
+  }
 
-    // 日付ごとに個別リクエスト（複数日まとめると100件制限で取得漏れが発生するため）
+  /**
+   * ページングしながら全件取得
+   * updatedSince を指定すると更新日時順で取得し、その日時以前に更新されたイベントが現れた時点で打ち切る
+   */
+  private async fetchAllPages(
+    params: ConnpassSearchParams,
+    context: Record<string, unknown>,
+    updatedSince: string | null = null,
+  ): Promise<PageFetchResult> {
+    const events: ConnpassEvent[] = [];
     const count = 100;
-    for (const date of targetDates) {
-      let start = 1;
-
-      while (true) {
-        const response = await this.fetchEvents({
-          ymd: [date],
-          prefecture: prefectures,
-          count,
-          start,
-          order: 2, // 開催日時順
-        });
+    const since = updatedSince ? new Date(updatedSince).getTime() : null;
+    let start = 1;
+
+    while (true) {
+      const response = await this.fetchEvents({
+        ...params,
+        count,
+        start,
+        order: since === null ? 2 : 1, // 開催日時順 / 更新日時順
+      });
 
-        allEvents.push(...response.events);
+      if (since === null) {
+        events.push(...response.events);
+      } else {
+        const updated = response.events.filter((e) => new Date(e.updated_at).getTime() > since);
+        events.push(...updated);
 
-        // 全件取得できたか確認
-        if (response.results_returned < count) {
-          break;
+        // 更新日時順なのでカーソル以前のイベントが現れたら以降は取得済み
+        if (updated.length < response.events.length) {
+          return { events, complete: true };
         }
+      }
+
+      // 全件取得できたか確認
+      if (response.results_returned < count) {
+        return { events, complete: true };
+      }
+
+      start += count;
+
+      // 安全のため最大500件まで
+      if (start > 500) {
+        logger.warn(context, "Reached max events limit");
+        return { events, complete: false };
+      }
+    }
+  }
+
+  /**
+   * 検索期間内の日付に開催されるイベントかどうか
+   */
+  private isInTargetDates(event: ConnpassEvent, dateSet: Set<string>): boolean {
+    return dateSet.has(format(new Date(event.started_at), "yyyyMMdd"));
+  }
+
+  /**
+   * 監視クエリごとにイベントを取得
+   * 都道府県は指定せず、検索期間の年月で絞り込んだうえで対象日付のイベントのみ残す
+   * @returns イベントIDごとのマッチした監視クエリ名
+   */
+  private async fetchWatchEvents(
+    targetDates: string[],
+    updatedSince: string | null,
+  ): Promise<{
+    events: ConnpassEvent[];
+    matches: Map<number, string[]>;
+    failures: FetchFailure[];
+  }> {
+    const events: ConnpassEvent[] = [];
+    const matches = new Map<number, string[]>();
+    const failures: FetchFailure[] = [];
+    const watches = this.config.connpass.watches;
+
+    if (watches.length === 0) {
+      return { events, matches, failures };
+    }
+
+    const dateSet = new Set(targetDates);
+    const months = Array.from(new Set(targetDates.map((d) => d.slice(0, 6))));
 
-        start += count;
+    for (const watch of watches) {
+      const params = this.buildWatchParams(watch);
+      let fetched: ConnpassEvent[] | null = null;
 
-        // 安全のため最大500件まで
-        if (start > 500) {
-          logger.warn({ date }, "Reached max events limit for date");
-          break;
+      try {
+        if (updatedSince) {
+          const result = await this.fetchAllPages(params, { watch: watch.name }, updatedSince);
+          fetched = result.complete ? result.events : null;
         }
+        if (!fetched) {
+          const result = await this.fetchAllPages({ ...params, ym: months }, { watch: watch.name });
+          fetched = result.events;
+        }
+      } catch (error) {
+        logger.error({ error, watch: watch.name }, "Failed to fetch watch events");
+        failures.push(toFetchFailure(`watch:${watch.name}`, error));
+        continue;
       }
+
+      const inRange = fetched.filter((e) => this.isInTargetDates(e, dateSet));
+
+      for (const event of inRange) {
+        const names = matches.get(event.id) ?? [];
+        names.push(watch.name);
+        matches.set(event.id, names);
+      }
+      events.push(...inRange);
+
+      logger.info({ watch: watch.name, count: inRange.length }, "Watch events fetched");
     }
 
-    logger.info({ total: allEvents.length }, "Total events fetched");
+    return { events, matches, failures };
+  }
+
+  /**
+   * 差分取得カーソルのキーを取得
+   * 都道府県や監視クエリの設定が変わった場合は別カーソルとして全件取得からやり直す
+   */
+  getCursorKey(): string {
+    const prefectures = this.getTargetPrefectures().join(",");
+    const watches = this.config.connpass.watches.map((w) => w.name).join(",");
+    return `prefectures:${prefectures};watches:${watches}`;
+  }
+
+  /**
+   * 前回以降に更新されたイベントを更新日時順で取得
+   * @returns 取得件数の上限に達した場合は complete が false (全件取得に切り替える)
+   */
+  private async fetchUpdatedEvents(
+    updatedSince: string,
+    targetDates: string[],
+    prefectures: Prefecture[],
+  ): Promise<{ events: ConnpassEvent[]; failures: FetchFailure[]; complete: boolean }> {
+    logger.info({ updatedSince, prefectures }, "Fetching updated events");
+
+    try {
+      const result = await this.fetchAllPages(
+        { prefecture: prefectures },
+        { updatedSince },
+        updatedSince,
+      );
+      if (!result.complete) {
+        logger.warn({ updatedSince }, "Too many updated events, falling back to full scan");
+        return { events: [], failures: [], complete: false };
+      }
+      const dateSet = new Set(targetDates);
+      const events = result.events.filter((e) => this.isInTargetDates(e, dateSet));
+      return { events, failures: [], complete: true };
+    } catch (error) {
+      logger.error({ error, updatedSince }, "Failed to fetch updated events");
+      return { events: [], failures: [toFetchFailure("updated", error)], complete: true };
+    }
+  }
+
+  /**
+   * 対象期間のイベントを日付ごとに取得
+   * 複数日まとめると100件制限で取得漏れが発生するため日付ごとに個別リクエストし、
+   * 失敗した日付は記録して残りの日付の取得を続ける
+   */
+  private async fetchEventsByDate(
+    targetDates: string[],
+    prefectures: Prefecture[],
+  ): Promise<{ events: ConnpassEvent[]; failures: FetchFailure[]; completeDates: string[] }> {
+    logger.info(
+      { dateRange: `${targetDates[0]} - ${targetDates[targetDates.length - 1]}`, prefectures },
+      "Fetching events",
+    );
+
+    const events: ConnpassEvent[] = [];
+    const failures: FetchFailure[] = [];
+    const completeDates: string[] = [];
+    for (const date of targetDates) {
+      try {
+        const result = await this.fetchAllPages({ ymd: [date], prefecture: prefectures }, { date });
+        events.push(...result.events);
+        if (result.complete) {
+          completeDates.push(date);
+        }
+      } catch (error) {
+        logger.error({ error, date }, "Failed to fetch events for date");
+        failures.push(toFetchFailure(date, error));
+      }
+    }
+    return { events, failures, completeDates };
+  }
+
+  /**
+   * イベントを取得
+   * updatedSince を指定すると前回以降に更新されたイベントのみを更新日時順で取得する
+   */
+  async getEvents(options: { updatedSince?: string | null } = {}): Promise<EventFetchResult> {
+    const targetDates = this.getTargetDates();
+    const prefectures = this.getTargetPrefectures();
+    const allEvents: ConnpassEvent[] = [];
+    const failures: FetchFailure[] = [];
+    let completeDates: string[] = [];
+    let updatedSince = options.updatedSince ?? null;
+
+    if (updatedSince) {
+      const result = await this.fetchUpdatedEvents(updatedSince, targetDates, prefectures);
+      allEvents.push(...result.events);
+      failures.push(...result.failures);
+      if (!result.complete) {
+        updatedSince = null;
+      }
+    }
+
+    if (!updatedSince) {
+      const result = await this.fetchEventsByDate(targetDates, prefectures);
+      allEvents.push(...result.events);
+      failures.push(...result.failures);
+      completeDates = result.completeDates;
+    }
+
+    // 監視クエリ
+    const sweepEventIds = new Set(allEvents.map((e) => e.id));
+    const watchResult = await this.fetchWatchEvents(targetDates, updatedSince);
+    allEvents.push(...watchResult.events);
+    failures.push(...watchResult.failures);
+
+    logger.info({ total: allEvents.length, failures: failures.length }, "Total events fetched");
 
     // 重複排除 (id で)
     const uniqueEvents = Array.from(new Map(allEvents.map((e) => [e.id, e])).values());
 
     // enrich & filter
-    const enrichedEvents = uniqueEvents.map((e) => this.enrichEvent(e));
+    const enrichedEvents = uniqueEvents.map((e) =>
+      this.enrichEvent(e, {
+        matchedWatches: watchResult.matches.get(e.id),
+        fromPrefectureSweep: sweepEventIds.has(e.id),
+      }),
+    );
     const filteredEvents = this.filterEvents(enrichedEvents);
 
     logger.info(
@@ -241,6 +630,28 @@ export class ConnpassClient {
       "Events processed",
     );
 
-    return filteredEvents;
+    return {
+      events: filteredEvents,
+      mode: updatedSince ? "incremental" : "full",
+      latestUpdatedAt: getLatestUpdatedAt(uniqueEvents),
+      targetCount: (updatedSince ? 1 : targetDates.length) + this.config.connpass.watches.length,
+      failures,
+      completeDates,
+      fetchedEventIds: new Set(uniqueEvents.map((e) => e.id)),
+    };
+  }
+
+  /**
+   * イベントIDを指定して取得 (期間・オンラインのフィルタは適用しない)
+   */
+  async getEventsByIds(eventIds: number[]): Promise<EnrichedEvent[]> {
+    const events: ConnpassEvent[] = [];
+    // event_id は1リクエストあたり100件まで
+    for (let i = 0; i < eventIds.length; i += 100) {
+      const chunk = eventIds.slice(i, i + 100);
+      const result = await this.fetchAllPages({ event_id: chunk }, { eventIds: chunk.length });
+      events.push(...result.events);
+    }
+    return events.map((e) => this.enrichEvent(e, { fromPrefectureSweep: false }));
   }
 }
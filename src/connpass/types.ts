@@ -144,16 +144,79 @@ export interface ConnpassSearchParams {
 
 /** 処理済みイベントの追加情報 */
 export interface EnrichedEvent extends ConnpassEvent {
-  /** オンライン開催かどうか */
+  /** オンライン開催かどうか (ハイブリッドは含まない) */
   is_online: boolean;
   /** 東京開催かどうか */
   is_tokyo: boolean;
+  /** 開催形態・開催地 */
+  venue: Venue;
+  /** マッチした監視クエリ名 (connpass.watches) */
+  matched_watches: string[];
+  /** 拠点からの距離判定 (geo.origins 設定時のオフラインイベントのみ) */
+  geo?: GeoMatch;
+  /** 空席アラート (前回スキャンから定員状況が変化した場合) */
+  capacity_alert?: CapacityAlert;
+  /** カレンダーのタイトルに表示する定員状況 (アラート後、状況が続いている間) */
+  capacity_marker?: CapacityAlert["type"];
+  /** 中止・延期の検出結果 */
+  cancellation?: Cancellation;
+  /** 前回保存時からの変更 (connpass の更新日時が変わった場合のみ) */
+  changes?: EventChange[];
   /** 登壇可能性判定結果 */
   speaker_opportunity?: SpeakerOpportunity;
   /** 興味マッチング結果 */
   interest_match?: InterestMatch;
 }
 
+/** マッチしたイベントの種別 (優先順: フォロー > 登壇 > 人気 > 興味) */
+export type EventCategory = "followed" | "speaker" | "popular" | "interest";
+
+export interface Venue {
+  /** 開催形態 */
+  type: "online" | "offline" | "hybrid";
+  /** 都道府県コード (オンラインのみの場合は "online", 不明の場合は null) */
+  prefecture: Prefecture | null;
+  /** 市区町村 */
+  city: string | null;
+}
+
+export interface GeoMatch {
+  /** 最寄りの拠点名 (座標がない場合は null) */
+  origin: string | null;
+  /** 最寄りの拠点からの距離 (km, 座標がない場合は null) */
+  distance_km: number | null;
+  /** いずれかの拠点の半径内か (座標がない場合は住所による判定) */
+  in_range: boolean;
+}
+
+export interface CapacityAlert {
+  /** seats_available: 満席・補欠ありから空席が出た, filling_up: まもなく満席 */
+  type: "seats_available" | "filling_up";
+  limit: number;
+  accepted: number;
+  waiting: number;
+  /** 前回スキャン時の参加者数 (初回は null) */
+  previous_accepted: number | null;
+  /** 前回スキャン時の補欠者数 (初回は null) */
+  previous_waiting: number | null;
+}
+
+export interface Cancellation {
+  /** cancelled: 中止, postponed: 延期 */
+  kind: "cancelled" | "postponed";
+  /** marker: タイトル・説明文の表記から判定, removed: API から消えた */
+  reason: "marker" | "removed";
+}
+
+export interface EventChange {
+  /** 変更された項目 */
+  field: "title" | "started_at" | "ended_at" | "place" | "address" | "limit" | "description";
+  /** 変更前の値 (説明文は長いため記録しない) */
+  before: string | null;
+  /** 変更後の値 (説明文は長いため記録しない) */
+  after: string | null;
+}
+
 export interface SpeakerOpportunity {
   /** 登壇可能性があるかどうか */
   has_opportunity: boolean;
@@ -174,4 +237,8 @@ export interface InterestMatch {
   keyword_matches: string[];
   /** LLM判定理由 (LLM使用時) */
   llm_reason?: string;
+  /** 埋め込みベクトルの類似度によるスコア (0-100、embedding 有効時) */
+  embedding_score?: number;
+  /** feedback コマンドの評価によるスコアの補正 (補正がある場合のみ) */
+  feedback_adjustment?: number;
 }
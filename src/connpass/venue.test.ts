@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { configSchema } from "../config/schema.js";
+import type { ConnpassEvent } from "./types.js";
+import { RuleBasedVenueClassifier, parseAddress } from "./venue.js";
+
+const config = configSchema.parse({ connpass: { api_key: "test" } });
+const classifier = new RuleBasedVenueClassifier(config.venue);
+
+/**
+ * 開催形態の判定に使う項目 (タイトル・キャッチ・会場・住所・座標) だけを指定したイベント
+ */
+function venueEvent(
+  fields: Partial<Pick<ConnpassEvent, "title" | "catch" | "place" | "address" | "lat" | "lon">>,
+): ConnpassEvent {
+  return {
+    title: "勉強会",
+    catch: "",
+    place: null,
+    address: null,
+    lat: null,
+    lon: null,
+    ...fields,
+  } as ConnpassEvent;
+}
+
+describe("parseAddress", () => {
+  it("都道府県名と市区町村を抽出", () => {
+    expect(parseAddress("〒150-0002 東京都渋谷区渋谷2-21-1")).toEqual({
+      prefecture: "tokyo",
+      city: "渋谷区",
+    });
+    expect(parseAddress("大阪府大阪市北区梅田3-1-1")).toEqual({
+      prefecture: "osaka",
+      city: "大阪市",
+    });
+  });
+
+  it("都道府県名がなければ主要な市区名から推定", () => {
+    expect(parseAddress("横浜市西区みなとみらい2-2-1")).toEqual({
+      prefecture: "kanagawa",
+      city: "横浜市",
+    });
+  });
+
+  it("複数の都市にある区名は東京と推定しない", () => {
+    expect(parseAddress("北区王子1-1-1").prefecture).toBeNull();
+    expect(parseAddress("北区梅田1-1-1").prefecture).toBe("osaka");
+  });
+
+  it("判定できなければ null", () => {
+    expect(parseAddress("どこかの会議室")).toEqual({ prefecture: null, city: null });
+  });
+});
+
+describe("RuleBasedVenueClassifier", () => {
+  const context = { prefectureFilter: [] };
+
+  it("会場にオンラインの記載があればオンライン", () => {
+    const event = venueEvent({ place: "オンライン (Zoom)" });
+    expect(classifier.classify(event, context)).toEqual({
+      type: "online",
+      prefecture: "online",
+      city: null,
+    });
+  });
+
+  it("ハイブリッドの記載があればハイブリッド", () => {
+    const event = venueEvent({
+      title: "【ハイブリッド開催】TypeScript勉強会",
+      address: "東京都千代田区丸の内1-1-1",
+    });
+    expect(classifier.classify(event, context)).toEqual({
+      type: "hybrid",
+      prefecture: "tokyo",
+      city: "千代田区",
+    });
+  });
+
+  it("オンラインの記載があっても会場の住所があればハイブリッド", () => {
+    const event = venueEvent({ title: "オンライン配信あり", address: "東京都新宿区西新宿2-8-1" });
+    expect(classifier.classify(event, context).type).toBe("hybrid");
+  });
+
+  it("オンラインの記載があっても会場の座標があればハイブリッド", () => {
+    const event = venueEvent({ place: "Zoom / 会議室", lat: "35.6581", lon: "139.7017" });
+    expect(classifier.classify(event, context).type).toBe("hybrid");
+  });
+
+  it("英字のキーワードは単語境界で照合", () => {
+    const event = venueEvent({ title: "Go meetup", place: "会議室" });
+    expect(classifier.classify(event, context).type).toBe("offline");
+  });
+
+  it("住所から判定できなければ取得時の都道府県フィルタを採用", () => {
+    const event = venueEvent({ place: "どこかの会議室" });
+    expect(classifier.classify(event, { prefectureFilter: ["fukuoka"] }).prefecture).toBe(
+      "fukuoka",
+    );
+    expect(
+      classifier.classify(event, { prefectureFilter: ["fukuoka", "tokyo"] }).prefecture,
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,229 @@
+import { parseCoordinate } from "../utils/geo.js";
+import { createTermMatcher, normalizeText } from "../utils/text.js";
+import type { ConnpassEvent, Prefecture, Venue } from "./types.js";
+
+/**
+ * 開催形態の分類器
+ */
+export interface VenueClassifier {
+  /**
+   * @param context.prefectureFilter イベントを取得したときの都道府県フィルタ (online を除く)
+   */
+  classify(event: ConnpassEvent, context: { prefectureFilter: Prefecture[] }): Venue;
+}
+
+export interface VenueKeywordRules {
+  /** オンライン開催を示すキーワード */
+  online_keywords: string[];
+  /** ハイブリッド開催を示すキーワード */
+  hybrid_keywords: string[];
+}
+
+/** 都道府県名 → 都道府県コード */
+const PREFECTURE_NAMES: Record<string, Exclude<Prefecture, "online">> = {
+  北海道: "hokkaido",
+  青森県: "aomori",
+  岩手県: "iwate",
+  宮城県: "miyagi",
+  秋田県: "akita",
+  山形県: "yamagata",
+  福島県: "fukushima",
+  茨城県: "ibaraki",
+  栃木県: "tochigi",
+  群馬県: "gunma",
+  埼玉県: "saitama",
+  千葉県: "chiba",
+  東京都: "tokyo",
+  神奈川県: "kanagawa",
+  山梨県: "yamanashi",
+  長野県: "nagano",
+  新潟県: "niigata",
+  富山県: "toyama",
+  石川県: "ishikawa",
+  福井県: "fukui",
+  岐阜県: "gifu",
+  静岡県: "shizuoka",
+  愛知県: "aichi",
+  三重県: "mie",
+  滋賀県: "shiga",
+  京都府: "kyoto",
+  大阪府: "osaka",
+  兵庫県: "hyogo",
+  奈良県: "nara",
+  和歌山県: "wakayama",
+  鳥取県: "tottori",
+  島根県: "shimane",
+  岡山県: "okayama",
+  広島県: "hiroshima",
+  山口県: "yamaguchi",
+  徳島県: "tokushima",
+  香川県: "kagawa",
+  愛媛県: "ehime",
+  高知県: "kochi",
+  福岡県: "fukuoka",
+  佐賀県: "saga",
+  長崎県: "nagasaki",
+  熊本県: "kumamoto",
+  大分県: "oita",
+  宮崎県: "miyazaki",
+  鹿児島県: "kagoshima",
+  沖縄県: "okinawa",
+};
+
+/**
+ * 都道府県名が省略された住所で使われる市区名 → 都道府県コード
+ * 北区・中央区・港区は大阪市・札幌市・名古屋市・神戸市などにもあるため含めない
+ */
+const CITY_PREFECTURES: Record<string, Exclude<Prefecture, "online">> = {
+  札幌市: "hokkaido",
+  仙台市: "miyagi",
+  さいたま市: "saitama",
+  千葉市: "chiba",
+  横浜市: "kanagawa",
+  川崎市: "kanagawa",
+  名古屋市: "aichi",
+  京都市: "kyoto",
+  大阪市: "osaka",
+  神戸市: "hyogo",
+  広島市: "hiroshima",
+  福岡市: "fukuoka",
+  千代田区: "tokyo",
+  新宿区: "tokyo",
+  文京区: "tokyo",
+  台東区: "tokyo",
+  墨田区: "tokyo",
+  江東区: "tokyo",
+  品川区: "tokyo",
+  目黒区: "tokyo",
+  大田区: "tokyo",
+  世田谷区: "tokyo",
+  渋谷区: "tokyo",
+  中野区: "tokyo",
+  杉並区: "tokyo",
+  豊島区: "tokyo",
+  荒川区: "tokyo",
+  板橋区: "tokyo",
+  練馬区: "tokyo",
+  足立区: "tokyo",
+  葛飾区: "tokyo",
+  江戸川区: "tokyo",
+};
+
+/** 住所がない会場名でよく使われる地名 → 都道府県コード */
+const AREA_PREFECTURES: Record<string, Exclude<Prefecture, "online">> = {
+  東京: "tokyo",
+  tokyo: "tokyo",
+  渋谷: "tokyo",
+  新宿: "tokyo",
+  池袋: "tokyo",
+  秋葉原: "tokyo",
+  品川: "tokyo",
+  六本木: "tokyo",
+  大阪: "osaka",
+  osaka: "osaka",
+  梅田: "osaka",
+  横浜: "kanagawa",
+  名古屋: "aichi",
+  福岡: "fukuoka",
+  博多: "fukuoka",
+  札幌: "hokkaido",
+};
+
+const CITY_PATTERN = /^(.{1,8}?[市区町村])/;
+
+/**
+ * いずれかのキーワードにマッチするかの照合関数を作成
+ */
+function createKeywordMatcher(keywords: string[]): (text: string) => boolean {
+  const matchers = keywords.map(createTermMatcher);
+  return (text) => matchers.some((match) => match(text));
+}
+
+/**
+ * 住所から都道府県と市区町村を抽出
+ */
+export function parseAddress(address: string): {
+  prefecture: Exclude<Prefecture, "online"> | null;
+  city: string | null;
+} {
+  const text = address
+    .normalize("NFKC")
+    .replace(/〒?\s*\d{3}-?\d{4}/, "")
+    .trim();
+
+  for (const [name, code] of Object.entries(PREFECTURE_NAMES)) {
+    const index = text.indexOf(name);
+    if (index !== -1) {
+      const rest = text.slice(index + name.length).trim();
+      return { prefecture: code, city: rest.match(CITY_PATTERN)?.[1] ?? null };
+    }
+  }
+
+  // 都道府県名が省略されている場合は主要な市区名から推定
+  for (const [city, code] of Object.entries(CITY_PREFECTURES)) {
+    if (text.startsWith(city) || text.includes(` ${city}`)) {
+      return { prefecture: code, city };
+    }
+  }
+
+  // 会場名に含まれる地名から推定 (市区町村は不明)
+  const lowered = text.toLowerCase();
+  for (const [area, code] of Object.entries(AREA_PREFECTURES)) {
+    if (lowered.includes(area)) {
+      return { prefecture: code, city: null };
+    }
+  }
+
+  return { prefecture: null, city: null };
+}
+
+/**
+ * キーワードと住所によるルールベースの分類器
+ */
+export class RuleBasedVenueClassifier implements VenueClassifier {
+  private isOnlineText: (text: string) => boolean;
+  private isHybridText: (text: string) => boolean;
+
+  constructor(rules: VenueKeywordRules) {
+    this.isOnlineText = createKeywordMatcher(rules.online_keywords);
+    this.isHybridText = createKeywordMatcher(rules.hybrid_keywords);
+  }
+
+  /**
+   * タイトル・キャッチ・会場名・住所のキーワードから開催形態を判定
+   */
+  private classifyType(event: ConnpassEvent, hasPhysicalVenue: boolean): Venue["type"] {
+    const place = normalizeText(event.place ?? "");
+    const address = normalizeText(event.address ?? "");
+    const title = normalizeText(event.title);
+    const catchText = normalizeText(event.catch ?? "");
+
+    if ([title, catchText, place, address].some((text) => this.isHybridText(text))) {
+      return "hybrid";
+    }
+    if (this.isOnlineText(place) || this.isOnlineText(address) || this.isOnlineText(title)) {
+      // オンラインの記載があっても会場の住所・座標があればハイブリッド
+      return hasPhysicalVenue ? "hybrid" : "online";
+    }
+    return "offline";
+  }
+
+  classify(event: ConnpassEvent, context: { prefectureFilter: Prefecture[] }): Venue {
+    const parsed = parseAddress(`${event.address ?? ""} ${event.place ?? ""}`.trim());
+    const hasPhysicalVenue =
+      parsed.prefecture !== null || parseCoordinate(event.lat, event.lon) !== null;
+    const type = this.classifyType(event, hasPhysicalVenue);
+
+    if (type === "online") {
+      return { type, prefecture: "online", city: null };
+    }
+
+    // 住所から判定できない場合は取得時の都道府県フィルタが1つならそれを採用
+    let prefecture: Prefecture | null = parsed.prefecture;
+    if (!prefecture && context.prefectureFilter.length === 1) {
+      prefecture = context.prefectureFilter[0] ?? null;
+    }
+
+    return { type, prefecture, city: parsed.city };
+  }
+}
@@ -0,0 +1,62 @@
+import type Database from "better-sqlite3";
+import type { AnalysisCache, AnalysisCacheKey, CachedAnalysis } from "../matcher/llm.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:analysis-cache");
+
+interface AnalysisCacheRow {
+  event_id: number;
+  content_hash: string;
+  context_hash: string;
+  result: string;
+  created_at: string;
+}
+
+/**
+ * LLM 分析結果のキャッシュDBアクセス
+ * イベントごとに最新の結果のみ保持し、ハッシュが一致しない場合はキャッシュなしとみなす
+ */
+export class AnalysisCacheRepository implements AnalysisCache {
+  private stmtGet: Database.Statement;
+  private stmtSave: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.stmtGet = db.prepare(`
+      SELECT * FROM llm_analysis_cache WHERE event_id = ?
+    `);
+
+    this.stmtSave = db.prepare(`
+      INSERT INTO llm_analysis_cache (event_id, content_hash, context_hash, result)
+      VALUES (@event_id, @content_hash, @context_hash, @result)
+      ON CONFLICT(event_id) DO UPDATE SET
+        content_hash = @content_hash,
+        context_hash = @context_hash,
+        result = @result,
+        created_at = datetime('now')
+    `);
+  }
+
+  /**
+   * キャッシュ済みの分析結果を取得 (イベント情報・プロファイル・モデルが変わっていれば null)
+   */
+  get(eventId: number, key: AnalysisCacheKey): CachedAnalysis | null {
+    const row = this.stmtGet.get(eventId) as AnalysisCacheRow | undefined;
+    if (!row || row.content_hash !== key.contentHash || row.context_hash !== key.contextHash) {
+      return null;
+    }
+    return JSON.parse(row.result) as CachedAnalysis;
+  }
+
+  /**
+   * 分析結果を保存
+   */
+  save(eventId: number, key: AnalysisCacheKey, analysis: CachedAnalysis): void {
+    this.stmtSave.run({
+      event_id: eventId,
+      content_hash: key.contentHash,
+      context_hash: key.contextHash,
+      result: JSON.stringify(analysis),
+    });
+    logger.debug({ eventId }, "LLM analysis cached");
+  }
+}
@@ -0,0 +1,84 @@
+import type Database from "better-sqlite3";
+import type { ConnpassEvent } from "../connpass/types.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:capacity");
+
+export interface CapacityRecord {
+  id: number;
+  event_id: number;
+  limit_count: number | null;
+  accepted: number;
+  waiting: number;
+  recorded_at: string;
+}
+
+/**
+ * 定員状況の履歴DBアクセス
+ */
+export class CapacityRepository {
+  private db: Database.Database;
+  private stmtGetLatest: Database.Statement;
+  private stmtInsert: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+
+    this.stmtGetLatest = db.prepare(`
+      SELECT * FROM event_capacity_history WHERE event_id = ? ORDER BY id DESC LIMIT 1
+    `);
+
+    this.stmtInsert = db.prepare(`
+      INSERT INTO event_capacity_history (event_id, limit_count, accepted, waiting)
+      VALUES (@event_id, @limit_count, @accepted, @waiting)
+    `);
+  }
+
+  /**
+   * 直近の定員状況を取得
+   */
+  getLatest(eventId: number): CapacityRecord | null {
+    const result = this.stmtGetLatest.get(eventId) as CapacityRecord | undefined;
+    return result ?? null;
+  }
+
+  /**
+   * 直近の定員状況を取得 (イベントIDごと、記録はしない)
+   */
+  getLatestAll(events: ConnpassEvent[]): Map<number, CapacityRecord | null> {
+    return new Map(events.map((event) => [event.id, this.getLatest(event.id)]));
+  }
+
+  /**
+   * 定員状況を記録 (前回から変化がない場合は記録しない)
+   * @returns 記録前の直近の定員状況 (イベントIDごと)
+   */
+  recordAll(events: ConnpassEvent[]): Map<number, CapacityRecord | null> {
+    const previous = new Map<number, CapacityRecord | null>();
+
+    const recordMany = this.db.transaction((evts: ConnpassEvent[]) => {
+      for (const event of evts) {
+        const latest = this.getLatest(event.id);
+        previous.set(event.id, latest);
+
+        const changed =
+          !latest ||
+          latest.limit_count !== event.limit ||
+          latest.accepted !== event.accepted ||
+          latest.waiting !== event.waiting;
+        if (changed) {
+          this.stmtInsert.run({
+            event_id: event.id,
+            limit_count: event.limit,
+            accepted: event.accepted,
+            waiting: event.waiting,
+          });
+        }
+      }
+    });
+
+    recordMany(events);
+    logger.debug({ count: events.length }, "Capacity recorded");
+    return previous;
+  }
+}
@@ -0,0 +1,59 @@
+import type Database from "better-sqlite3";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:cursors");
+
+export interface ScanCursorRecord {
+  cursor_key: string;
+  last_updated_at: string | null;
+  last_full_scan_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * スキャンカーソルDBアクセス
+ */
+export class ScanCursorRepository {
+  private stmtGet: Database.Statement;
+  private stmtSave: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.stmtGet = db.prepare(`
+      SELECT * FROM scan_cursors WHERE cursor_key = ?
+    `);
+
+    this.stmtSave = db.prepare(`
+      INSERT INTO scan_cursors (cursor_key, last_updated_at, last_full_scan_at, updated_at)
+      VALUES (@cursor_key, @last_updated_at, @last_full_scan_at, datetime('now'))
+      ON CONFLICT(cursor_key) DO UPDATE SET
+        last_updated_at = @last_updated_at,
+        last_full_scan_at = COALESCE(@last_full_scan_at, last_full_scan_at),
+        updated_at = datetime('now')
+    `);
+  }
+
+  /**
+   * カーソルを取得
+   */
+  get(cursorKey: string): ScanCursorRecord | null {
+    const result = this.stmtGet.get(cursorKey) as ScanCursorRecord | undefined;
+    return result ?? null;
+  }
+
+  /**
+   * カーソルを保存
+   * fullScanAt を省略した場合は前回の全件取得日時を維持
+   */
+  save(params: { cursorKey: string; lastUpdatedAt: string | null; fullScanAt?: string }): void {
+    this.stmtSave.run({
+      cursor_key: params.cursorKey,
+      last_updated_at: params.lastUpdatedAt,
+      last_full_scan_at: params.fullScanAt ?? null,
+    });
+
+    logger.debug(
+      { cursorKey: params.cursorKey, lastUpdatedAt: params.lastUpdatedAt },
+      "Scan cursor saved",
+    );
+  }
+}
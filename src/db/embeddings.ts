@@ -0,0 +1,62 @@
+import type Database from "better-sqlite3";
+import type { EmbeddingStore } from "../matcher/embedding.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:embeddings");
+
+interface EmbeddingRow {
+  key: string;
+  model: string;
+  content_hash: string;
+  vector: Buffer;
+  created_at: string;
+}
+
+/**
+ * 埋め込みベクトルのDBアクセス
+ * ベクトルは Float32 のバイト列として保存し、テキストのハッシュが一致しない場合は保存なしとみなす
+ */
+export class EmbeddingRepository implements EmbeddingStore {
+  private stmtGet: Database.Statement;
+  private stmtSave: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.stmtGet = db.prepare(`
+      SELECT * FROM embeddings WHERE key = ? AND model = ?
+    `);
+
+    this.stmtSave = db.prepare(`
+      INSERT INTO embeddings (key, model, content_hash, vector)
+      VALUES (@key, @model, @content_hash, @vector)
+      ON CONFLICT(key, model) DO UPDATE SET
+        content_hash = @content_hash,
+        vector = @vector,
+        created_at = datetime('now')
+    `);
+  }
+
+  /**
+   * 保存済みのベクトルを取得 (テキストが変わっていれば null)
+   */
+  get(key: string, model: string, contentHash: string): number[] | null {
+    const row = this.stmtGet.get(key, model) as EmbeddingRow | undefined;
+    if (!row || row.content_hash !== contentHash) {
+      return null;
+    }
+    const { buffer, byteOffset, byteLength } = row.vector;
+    return Array.from(new Float32Array(buffer.slice(byteOffset, byteOffset + byteLength)));
+  }
+
+  /**
+   * ベクトルを保存
+   */
+  save(key: string, model: string, contentHash: string, vector: number[]): void {
+    this.stmtSave.run({
+      key,
+      model,
+      content_hash: contentHash,
+      vector: Buffer.from(new Float32Array(vector).buffer),
+    });
+    logger.debug({ key, model }, "Embedding saved");
+  }
+}
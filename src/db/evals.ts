@@ -0,0 +1,81 @@
+import type Database from "better-sqlite3";
+import type { EvalReport } from "../eval/runner.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:evals");
+
+export interface EvalRunRecord {
+  id: number;
+  createdAt: string;
+  report: EvalReport;
+}
+
+interface EvalRunRow {
+  id: number;
+  dataset: string;
+  dataset_hash: string;
+  event_count: number;
+  report: string;
+  created_at: string;
+}
+
+function toEvalRunRecord(row: EvalRunRow): EvalRunRecord {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    report: JSON.parse(row.report) as EvalReport,
+  };
+}
+
+/**
+ * 評価結果DBアクセス
+ */
+export class EvalRunRepository {
+  private stmtSave: Database.Statement;
+  private stmtGet: Database.Statement;
+  private stmtList: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.stmtSave = db.prepare(`
+      INSERT INTO eval_runs (dataset, dataset_hash, event_count, report, created_at)
+      VALUES (@dataset, @dataset_hash, @event_count, @report, @created_at)
+    `);
+
+    this.stmtGet = db.prepare(`
+      SELECT * FROM eval_runs WHERE id = ?
+    `);
+
+    this.stmtList = db.prepare(`
+      SELECT * FROM eval_runs ORDER BY id DESC LIMIT ?
+    `);
+  }
+
+  /**
+   * 評価結果を保存
+   * @returns 評価ID
+   */
+  save(report: EvalReport): number {
+    const result = this.stmtSave.run({
+      dataset: report.dataset,
+      dataset_hash: report.datasetHash,
+      event_count: report.eventCount,
+      report: JSON.stringify(report),
+      created_at: new Date().toISOString(),
+    });
+    const runId = Number(result.lastInsertRowid);
+    logger.debug({ runId, dataset: report.dataset }, "Eval run saved");
+    return runId;
+  }
+
+  get(runId: number): EvalRunRecord | null {
+    const row = this.stmtGet.get(runId) as EvalRunRow | undefined;
+    return row ? toEvalRunRecord(row) : null;
+  }
+
+  /**
+   * 最近の評価結果を取得 (新しい順)
+   */
+  list(limit = 20): EvalRunRecord[] {
+    return (this.stmtList.all(limit) as EvalRunRow[]).map(toEvalRunRecord);
+  }
+}
@@ -1,5 +1,14 @@
 import type Database from "better-sqlite3";
-import type { EnrichedEvent } from "../connpass/types.js";
+import { diffEvents } from "../connpass/changes.js";
+import type {
+  Cancellation,
+  CapacityAlert,
+  ConnpassEvent,
+  EnrichedEvent,
+  EventCategory,
+  EventChange,
+} from "../connpass/types.js";
+import { stripHtml } from "../utils/html.js";
 import { createChildLogger } from "../utils/logger.js";
 
 const logger = createChildLogger("db:events");
@@ -11,9 +20,58 @@ export interface ProcessedEventRecord {
   interest_score: number | null;
   calendar_event_id: string | null;
   connpass_updated_at: string | null;
+  /** マッチした種別 (マッチしなかった場合は null) */
+  category: EventCategory | null;
+  /** 中止・延期を検出した場合、または LLM 分析に失敗した場合のみ設定 */
+  status: Cancellation["kind"] | "analysis_failed" | null;
+  cancelled_at: string | null;
+  /** カレンダーのタイトルに表示中の定員状況 */
+  capacity_marker: CapacityAlert["type"] | null;
   processed_at: string;
 }
 
+interface EventRow {
+  event_id: number;
+  title: string;
+  event_url: string;
+  started_at: string;
+  ended_at: string;
+  place: string | null;
+  address: string | null;
+  is_online: number;
+  is_tokyo: number;
+  connpass_updated_at: string | null;
+  distance_km: number | null;
+  raw_json: string | null;
+}
+
+/**
+ * EnrichedEvent で付加した項目 (保存時に除いて connpass のレスポンスのみ残す)
+ * 項目を追加したときに型エラーで気付けるよう Record で列挙する
+ */
+const ENRICHMENT_KEYS: Record<Exclude<keyof EnrichedEvent, keyof ConnpassEvent>, true> = {
+  is_online: true,
+  is_tokyo: true,
+  matched_watches: true,
+  venue: true,
+  geo: true,
+  capacity_alert: true,
+  capacity_marker: true,
+  cancellation: true,
+  changes: true,
+  speaker_opportunity: true,
+  interest_match: true,
+};
+
+/**
+ * connpass のレスポンス部分を JSON に変換
+ */
+function toRawJson(event: EnrichedEvent): string {
+  return JSON.stringify(
+    Object.fromEntries(Object.entries(event).filter(([key]) => !(key in ENRICHMENT_KEYS))),
+  );
+}
+
 /**
  * イベントDBアクセス
  */
@@ -23,14 +81,18 @@ export class EventRepository {
   private stmtGetProcessed: Database.Statement;
   private stmtMarkProcessed: Database.Statement;
   private stmtGetUnprocessedIds: Database.Statement;
+  private stmtGetRawEvent: Database.Statement;
+  private stmtInsertRevision: Database.Statement;
+  private stmtDeleteSearchIndex: Database.Statement;
+  private stmtInsertSearchIndex: Database.Statement;
 
   constructor(db: Database.Database) {
     this.db = db;
 
     // Prepared statements
     this.stmtUpsertEvent = db.prepare(`
-      INSERT INTO events (event_id, title, event_url, started_at, ended_at, place, address, is_online, is_tokyo, connpass_updated_at, updated_at)
-      VALUES (@event_id, @title, @event_url, @started_at, @ended_at, @place, @address, @is_online, @is_tokyo, @connpass_updated_at, datetime('now'))
+      INSERT INTO events (event_id, title, event_url, started_at, ended_at, place, address, is_online, is_tokyo, connpass_updated_at, distance_km, raw_json, updated_at)
+      VALUES (@event_id, @title, @event_url, @started_at, @ended_at, @place, @address, @is_online, @is_tokyo, @connpass_updated_at, @distance_km, @raw_json, datetime('now'))
       ON CONFLICT(event_id) DO UPDATE SET
         title = @title,
         event_url = @event_url,
@@ -41,6 +103,8 @@ export class EventRepository {
         is_online = @is_online,
         is_tokyo = @is_tokyo,
         connpass_updated_at = @connpass_updated_at,
+        distance_km = @distance_km,
+        raw_json = @raw_json,
         updated_at = datetime('now')
     `);
 
@@ -49,14 +113,18 @@ export class EventRepository {
     `);
 
     this.stmtMarkProcessed = db.prepare(`
-      INSERT INTO processed_events (event_id, has_speaker_opportunity, has_interest_match, interest_score, calendar_event_id, connpass_updated_at)
-      VALUES (@event_id, @has_speaker_opportunity, @has_interest_match, @interest_score, @calendar_event_id, @connpass_updated_at)
+      INSERT INTO processed_events (event_id, category, has_speaker_opportunity, has_interest_match, interest_score, calendar_event_id, connpass_updated_at, capacity_marker)
+      VALUES (@event_id, @category, @has_speaker_opportunity, @has_interest_match, @interest_score, @calendar_event_id, @connpass_updated_at, @capacity_marker)
       ON CONFLICT(event_id) DO UPDATE SET
+        category = @category,
         has_speaker_opportunity = @has_speaker_opportunity,
         has_interest_match = @has_interest_match,
         interest_score = @interest_score,
         calendar_event_id = COALESCE(@calendar_event_id, calendar_event_id),
         connpass_updated_at = @connpass_updated_at,
+        capacity_marker = @capacity_marker,
+        status = NULL,
+        cancelled_at = NULL,
         processed_at = datetime('now')
     `);
 
@@ -65,6 +133,24 @@ export class EventRepository {
       LEFT JOIN processed_events p ON e.event_id = p.event_id
       WHERE p.event_id IS NULL
     `);
+
+    this.stmtGetRawEvent = db.prepare(`
+      SELECT raw_json, connpass_updated_at FROM events WHERE event_id = ?
+    `);
+
+    this.stmtInsertRevision = db.prepare(`
+      INSERT INTO event_revisions (event_id, connpass_updated_at, changes)
+      VALUES (@event_id, @connpass_updated_at, @changes)
+    `);
+
+    this.stmtDeleteSearchIndex = db.prepare(`
+      DELETE FROM events_fts WHERE event_id = ?
+    `);
+
+    this.stmtInsertSearchIndex = db.prepare(`
+      INSERT INTO events_fts (event_id, title, catch, description, group_title, place)
+      VALUES (@event_id, @title, @catch, @description, @group_title, @place)
+    `);
   }
 
   /**
@@ -82,21 +168,64 @@ export class EventRepository {
       is_online: event.is_online ? 1 : 0,
       is_tokyo: event.is_tokyo ? 1 : 0,
       connpass_updated_at: event.updated_at,
+      distance_km: event.geo?.distance_km ?? null,
+      raw_json: toRawJson(event),
+    });
+
+    // 全文検索インデックスを更新
+    this.stmtDeleteSearchIndex.run(event.id);
+    this.stmtInsertSearchIndex.run({
+      event_id: event.id,
+      title: event.title,
+      catch: event.catch,
+      description: stripHtml(event.description),
+      group_title: event.group?.title ?? null,
+      place: event.place,
     });
   }
 
   /**
    * 複数イベントを一括保存
+   * @returns connpass の更新日時が変わり、変更があったイベントIDごとの変更内容
    */
-  saveEvents(events: EnrichedEvent[]): void {
+  saveEvents(events: EnrichedEvent[]): Map<number, EventChange[]> {
+    const changesById = new Map<number, EventChange[]>();
     const insertMany = this.db.transaction((evts: EnrichedEvent[]) => {
       for (const event of evts) {
+        const changes = this.recordRevision(event);
+        if (changes.length > 0) {
+          changesById.set(event.id, changes);
+        }
         this.saveEvent(event);
       }
     });
 
     insertMany(events);
-    logger.debug({ count: events.length }, "Events saved");
+    logger.debug({ count: events.length, changed: changesById.size }, "Events saved");
+    return changesById;
+  }
+
+  /**
+   * 保存済みのイベントと比較し、更新日時が変わっていれば変更内容を履歴に記録
+   * レスポンス全体を保存していない古いデータとは比較しない
+   */
+  private recordRevision(event: EnrichedEvent): EventChange[] {
+    const previous = this.stmtGetRawEvent.get(event.id) as
+      | Pick<EventRow, "raw_json" | "connpass_updated_at">
+      | undefined;
+    if (!previous?.raw_json || previous.connpass_updated_at === event.updated_at) {
+      return [];
+    }
+
+    const changes = diffEvents(JSON.parse(previous.raw_json) as ConnpassEvent, event);
+    if (changes.length > 0) {
+      this.stmtInsertRevision.run({
+        event_id: event.id,
+        connpass_updated_at: event.updated_at,
+        changes: JSON.stringify(changes),
+      });
+    }
+    return changes;
   }
 
   /**
@@ -120,19 +249,23 @@ export class EventRepository {
    */
   markProcessed(params: {
     eventId: number;
+    category?: EventCategory;
     hasSpeakerOpportunity: boolean;
     hasInterestMatch: boolean;
     interestScore?: number;
     calendarEventId?: string;
     connpassUpdatedAt?: string;
+    capacityMarker?: CapacityAlert["type"] | null | undefined;
   }): void {
     this.stmtMarkProcessed.run({
       event_id: params.eventId,
+      category: params.category ?? null,
       has_speaker_opportunity: params.hasSpeakerOpportunity ? 1 : 0,
       has_interest_match: params.hasInterestMatch ? 1 : 0,
       interest_score: params.interestScore ?? null,
       calendar_event_id: params.calendarEventId ?? null,
       connpass_updated_at: params.connpassUpdatedAt ?? null,
+      capacity_marker: params.capacityMarker ?? null,
     });
 
     logger.debug({ eventId: params.eventId }, "Event marked as processed");
@@ -179,6 +312,127 @@ export class EventRepository {
     }));
   }
 
+  /**
+   * カレンダーに登録中 (中止・延期未検出) のイベントを取得
+   */
+  getActiveCalendarEvents(): Array<{
+    eventId: number;
+    calendarEventId: string;
+    startedAt: string;
+  }> {
+    const stmt = this.db.prepare(`
+      SELECT p.event_id, p.calendar_event_id, e.started_at
+      FROM processed_events p
+      JOIN events e ON p.event_id = e.event_id
+      WHERE p.calendar_event_id IS NOT NULL
+        AND (p.status IS NULL OR p.status = 'analysis_failed')
+    `);
+    const rows = stmt.all() as Array<{
+      event_id: number;
+      calendar_event_id: string;
+      started_at: string;
+    }>;
+    return rows.map((r) => ({
+      eventId: r.event_id,
+      calendarEventId: r.calendar_event_id,
+      startedAt: r.started_at,
+    }));
+  }
+
+  /**
+   * 保存済みのイベント情報を取得 (API から取得できなくなったイベント用)
+   * レスポンス全体を保存していない古いデータは、保存していない項目を空の値で補う
+   */
+  getStoredEvent(eventId: number): EnrichedEvent | null {
+    const stmt = this.db.prepare("SELECT * FROM events WHERE event_id = ?");
+    const row = stmt.get(eventId) as EventRow | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const isOnline = row.is_online === 1;
+    const raw = row.raw_json ? (JSON.parse(row.raw_json) as ConnpassEvent) : null;
+    return {
+      id: row.event_id,
+      title: row.title,
+      catch: "",
+      description: "",
+      url: row.event_url,
+      hash_tag: "",
+      started_at: row.started_at,
+      ended_at: row.ended_at,
+      limit: null,
+      event_type: "participation",
+      group: null,
+      address: row.address,
+      place: row.place,
+      lat: null,
+      lon: null,
+      owner_id: 0,
+      owner_nickname: "",
+      owner_display_name: "",
+      accepted: 0,
+      waiting: 0,
+      updated_at: row.connpass_updated_at ?? "",
+      ...raw,
+      is_online: isOnline,
+      is_tokyo: row.is_tokyo === 1,
+      matched_watches: [],
+      venue: {
+        type: isOnline ? "online" : "offline",
+        prefecture: isOnline ? "online" : row.is_tokyo === 1 ? "tokyo" : null,
+        city: null,
+      },
+    };
+  }
+
+  /**
+   * イベントの中止・延期を記録
+   * カレンダーから削除した場合は calendarEventId に null を渡す
+   */
+  markCancelled(eventId: number, kind: Cancellation["kind"], calendarEventId: string | null): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO processed_events (event_id, calendar_event_id, status, cancelled_at)
+      VALUES (@event_id, @calendar_event_id, @status, datetime('now'))
+      ON CONFLICT(event_id) DO UPDATE SET
+        calendar_event_id = @calendar_event_id,
+        status = @status,
+        cancelled_at = datetime('now'),
+        processed_at = datetime('now')
+    `);
+    stmt.run({ event_id: eventId, calendar_event_id: calendarEventId, status: kind });
+    logger.debug({ eventId, kind }, "Event marked as cancelled");
+  }
+
+  /**
+   * LLM 分析の失敗を記録 (次回のスキャンで再分析する)
+   * 既存の判定結果・カレンダーIDは保持する
+   */
+  markAnalysisFailed(eventId: number, connpassUpdatedAt: string): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO processed_events (event_id, connpass_updated_at, status)
+      VALUES (@event_id, @connpass_updated_at, 'analysis_failed')
+      ON CONFLICT(event_id) DO UPDATE SET
+        connpass_updated_at = @connpass_updated_at,
+        status = 'analysis_failed',
+        cancelled_at = NULL,
+        processed_at = datetime('now')
+    `);
+    stmt.run({ event_id: eventId, connpass_updated_at: connpassUpdatedAt });
+    logger.debug({ eventId }, "Event marked as analysis failed");
+  }
+
+  /**
+   * カレンダーのタイトルに表示中の定員状況を記録
+   */
+  setCapacityMarker(eventId: number, marker: CapacityAlert["type"] | null): void {
+    const stmt = this.db.prepare(`
+      UPDATE processed_events SET capacity_marker = ? WHERE event_id = ?
+    `);
+    stmt.run(marker, eventId);
+    logger.debug({ eventId, marker }, "Capacity marker updated");
+  }
+
   /**
    * イベントのカレンダーIDをクリア
    */
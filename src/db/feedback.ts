@@ -0,0 +1,64 @@
+import type Database from "better-sqlite3";
+import type { FeedbackLabel } from "../matcher/feedback.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:feedback");
+
+export interface FeedbackRecord {
+  event_id: number;
+  label: FeedbackLabel;
+  note: string | null;
+  created_at: string;
+}
+
+/**
+ * イベントへの評価のDBアクセス
+ * イベントごとに最新の評価のみ保持する
+ */
+export class FeedbackRepository {
+  private stmtSave: Database.Statement;
+  private stmtGet: Database.Statement;
+  private stmtList: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.stmtSave = db.prepare(`
+      INSERT INTO event_feedback (event_id, label, note)
+      VALUES (@event_id, @label, @note)
+      ON CONFLICT(event_id) DO UPDATE SET
+        label = @label,
+        note = @note,
+        created_at = datetime('now')
+    `);
+
+    this.stmtGet = db.prepare(`
+      SELECT * FROM event_feedback WHERE event_id = ?
+    `);
+
+    this.stmtList = db.prepare(`
+      SELECT * FROM event_feedback ORDER BY created_at DESC, event_id DESC
+    `);
+  }
+
+  /**
+   * 評価を保存 (評価済みのイベントは上書き)
+   */
+  save(params: { eventId: number; label: FeedbackLabel; note?: string | undefined }): void {
+    this.stmtSave.run({
+      event_id: params.eventId,
+      label: params.label,
+      note: params.note ?? null,
+    });
+    logger.debug({ eventId: params.eventId, label: params.label }, "Feedback saved");
+  }
+
+  get(eventId: number): FeedbackRecord | null {
+    return (this.stmtGet.get(eventId) as FeedbackRecord | undefined) ?? null;
+  }
+
+  /**
+   * すべての評価を新しい順に取得
+   */
+  list(): FeedbackRecord[] {
+    return this.stmtList.all() as FeedbackRecord[];
+  }
+}
@@ -0,0 +1,97 @@
+import type Database from "better-sqlite3";
+import type { DecisionRecorder, LLMDecision, RawAnalysisResult } from "../matcher/llm.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:llm-decisions");
+
+export interface LLMDecisionRecord extends LLMDecision {
+  id: number;
+  eventId: number;
+  createdAt: string;
+}
+
+interface LLMDecisionRow {
+  id: number;
+  event_id: number;
+  provider: string;
+  model: string;
+  prompt_hash: string;
+  raw_response: string | null;
+  parsed_result: string | null;
+  latency_ms: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  batch_size: number;
+  error: string | null;
+  created_at: string;
+}
+
+function toRecord(row: LLMDecisionRow): LLMDecisionRecord {
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    provider: row.provider,
+    model: row.model,
+    promptHash: row.prompt_hash,
+    rawResponse: row.raw_response,
+    parsedResult: row.parsed_result ? (JSON.parse(row.parsed_result) as RawAnalysisResult) : null,
+    latencyMs: row.latency_ms,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    batchSize: row.batch_size,
+    error: row.error,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * LLM 呼び出しの監査ログDBアクセス
+ */
+export class LLMDecisionRepository implements DecisionRecorder {
+  private db: Database.Database;
+  private stmtInsert: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+
+    this.stmtInsert = db.prepare(`
+      INSERT INTO llm_decisions (
+        event_id, provider, model, prompt_hash, raw_response, parsed_result,
+        latency_ms, input_tokens, output_tokens, batch_size, error
+      )
+      VALUES (
+        @event_id, @provider, @model, @prompt_hash, @raw_response, @parsed_result,
+        @latency_ms, @input_tokens, @output_tokens, @batch_size, @error
+      )
+    `);
+  }
+
+  /**
+   * LLM 呼び出しを記録
+   */
+  record(eventId: number, decision: LLMDecision): void {
+    this.stmtInsert.run({
+      event_id: eventId,
+      provider: decision.provider,
+      model: decision.model,
+      prompt_hash: decision.promptHash,
+      raw_response: decision.rawResponse,
+      parsed_result: decision.parsedResult ? JSON.stringify(decision.parsedResult) : null,
+      latency_ms: decision.latencyMs,
+      input_tokens: decision.inputTokens,
+      output_tokens: decision.outputTokens,
+      batch_size: decision.batchSize,
+      error: decision.error,
+    });
+    logger.debug({ eventId, error: decision.error }, "LLM decision recorded");
+  }
+
+  /**
+   * イベントごとの LLM 呼び出し履歴を取得 (新しい順)
+   */
+  getByEvent(eventId: number): LLMDecisionRecord[] {
+    const stmt = this.db.prepare("SELECT * FROM llm_decisions WHERE event_id = ? ORDER BY id DESC");
+    const rows = stmt.all(eventId) as LLMDecisionRow[];
+    return rows.map(toRecord);
+  }
+}
@@ -0,0 +1,127 @@
+import type Database from "better-sqlite3";
+import { createChildLogger } from "../utils/logger.js";
+import { type Migration, migrations } from "./migrations/index.js";
+
+const logger = createChildLogger("db:migrate");
+
+/** このバージョンのアプリが対応するスキーマバージョン */
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1]?.version ?? 0;
+
+/**
+ * DB のスキーマがアプリより新しい場合のエラー
+ * 古いアプリで処理すると新しいカラムの情報が失われるため実行を拒否する
+ */
+export class SchemaVersionError extends Error {
+  readonly currentVersion: number;
+  readonly latestVersion: number;
+
+  constructor(currentVersion: number, latestVersion: number) {
+    super(
+      `Database schema version ${currentVersion} is newer than supported version ${latestVersion}. Upgrade connpass-watcher.`,
+    );
+    this.name = "SchemaVersionError";
+    this.currentVersion = currentVersion;
+    this.latestVersion = latestVersion;
+  }
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** 適用日時 (未適用の場合は null) */
+  appliedAt: string | null;
+}
+
+/**
+ * マイグレーションが 1 からの連番になっているか検証
+ */
+function assertSequential(list: Migration[]): void {
+  list.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migration ${migration.name} has version ${migration.version}, expected ${index + 1}`,
+      );
+    }
+  });
+}
+
+function hasVersionTable(db: Database.Database): boolean {
+  const row = db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'")
+    .get();
+  return row !== undefined;
+}
+
+/**
+ * 適用済みのマイグレーションを取得
+ */
+function getAppliedMigrations(db: Database.Database): Map<number, string> {
+  if (!hasVersionTable(db)) {
+    return new Map();
+  }
+  const rows = db.prepare("SELECT version, applied_at FROM schema_version").all() as Array<{
+    version: number;
+    applied_at: string;
+  }>;
+  return new Map(rows.map((r) => [r.version, r.applied_at]));
+}
+
+/**
+ * 現在のスキーマバージョンを取得 (マイグレーション導入前のDB・新規DBは 0)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  return Math.max(0, ...getAppliedMigrations(db).keys());
+}
+
+/**
+ * 各マイグレーションの適用状況を取得 (DB は変更しない)
+ */
+export function getMigrationStatus(db: Database.Database): {
+  currentVersion: number;
+  latestVersion: number;
+  migrations: MigrationStatus[];
+} {
+  const applied = getAppliedMigrations(db);
+  return {
+    currentVersion: getSchemaVersion(db),
+    latestVersion: LATEST_SCHEMA_VERSION,
+    migrations: migrations.map((m) => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: applied.get(m.version) ?? null,
+    })),
+  };
+}
+
+/**
+ * 未適用のマイグレーションを順に適用 (マイグレーションごとにトランザクション)
+ * @returns 適用したマイグレーションの数
+ */
+export function runMigrations(db: Database.Database): number {
+  assertSequential(migrations);
+
+  const currentVersion = getSchemaVersion(db);
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new SchemaVersionError(currentVersion, LATEST_SCHEMA_VERSION);
+  }
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+  const stmtRecord = db.prepare("INSERT INTO schema_version (version, name) VALUES (?, ?)");
+
+  const pending = migrations.filter((m) => m.version > currentVersion);
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      stmtRecord.run(migration.version, migration.name);
+    })();
+    logger.info({ version: migration.version, name: migration.name }, "Migration applied");
+  }
+
+  return pending.length;
+}
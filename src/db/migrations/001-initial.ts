@@ -0,0 +1,48 @@
+import { addColumnIfMissing } from "./helpers.js";
+import type { Migration } from "./types.js";
+
+/**
+ * イベント・処理済みイベントテーブル
+ */
+export const migration: Migration = {
+  version: 1,
+  name: "initial",
+  up(db) {
+    db.exec(`
+      -- イベントテーブル
+      CREATE TABLE IF NOT EXISTS events (
+        event_id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        event_url TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        ended_at TEXT NOT NULL,
+        place TEXT,
+        address TEXT,
+        is_online INTEGER NOT NULL DEFAULT 0,
+        is_tokyo INTEGER NOT NULL DEFAULT 0,
+        connpass_updated_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- 処理済みイベントテーブル
+      CREATE TABLE IF NOT EXISTS processed_events (
+        event_id INTEGER PRIMARY KEY,
+        has_speaker_opportunity INTEGER NOT NULL DEFAULT 0,
+        has_interest_match INTEGER NOT NULL DEFAULT 0,
+        interest_score INTEGER,
+        calendar_event_id TEXT,
+        connpass_updated_at TEXT,
+        processed_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (event_id) REFERENCES events(event_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_events_started_at ON events(started_at);
+      CREATE INDEX IF NOT EXISTS idx_processed_events_processed_at ON processed_events(processed_at);
+    `);
+
+    // connpass_updated_at より前に作成されたDB用
+    addColumnIfMissing(db, "events", "connpass_updated_at", "TEXT");
+    addColumnIfMissing(db, "processed_events", "connpass_updated_at", "TEXT");
+  },
+};
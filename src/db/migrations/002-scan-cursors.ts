@@ -0,0 +1,19 @@
+import type { Migration } from "./types.js";
+
+/**
+ * スキャンカーソルテーブル (差分取得用)
+ */
+export const migration: Migration = {
+  version: 2,
+  name: "scan_cursors",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS scan_cursors (
+        cursor_key TEXT PRIMARY KEY,
+        last_updated_at TEXT,
+        last_full_scan_at TEXT,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+  },
+};
@@ -0,0 +1,14 @@
+import { addColumnIfMissing } from "./helpers.js";
+import type { Migration } from "./types.js";
+
+/**
+ * 拠点からの距離
+ */
+export const migration: Migration = {
+  version: 3,
+  name: "distance",
+  up(db) {
+    addColumnIfMissing(db, "events", "distance_km", "REAL");
+    db.exec("CREATE INDEX IF NOT EXISTS idx_events_distance_km ON events(distance_km)");
+  },
+};
@@ -0,0 +1,24 @@
+import type { Migration } from "./types.js";
+
+/**
+ * 定員状況の履歴テーブル (変化があったときのみ記録)
+ */
+export const migration: Migration = {
+  version: 4,
+  name: "capacity_history",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS event_capacity_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id INTEGER NOT NULL,
+        limit_count INTEGER,
+        accepted INTEGER NOT NULL,
+        waiting INTEGER NOT NULL,
+        recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (event_id) REFERENCES events(event_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_capacity_history_event_id ON event_capacity_history(event_id, id);
+    `);
+  },
+};
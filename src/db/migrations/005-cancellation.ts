@@ -0,0 +1,14 @@
+import { addColumnIfMissing } from "./helpers.js";
+import type { Migration } from "./types.js";
+
+/**
+ * 中止・延期の記録
+ */
+export const migration: Migration = {
+  version: 5,
+  name: "cancellation",
+  up(db) {
+    addColumnIfMissing(db, "processed_events", "status", "TEXT");
+    addColumnIfMissing(db, "processed_events", "cancelled_at", "TEXT");
+  },
+};
@@ -0,0 +1,26 @@
+import { addColumnIfMissing } from "./helpers.js";
+import type { Migration } from "./types.js";
+
+/**
+ * connpass のレスポンス全体とイベントの変更履歴
+ */
+export const migration: Migration = {
+  version: 6,
+  name: "event_revisions",
+  up(db) {
+    addColumnIfMissing(db, "events", "raw_json", "TEXT");
+    db.exec(`
+      -- connpass の更新日時が変わったときに変更項目を記録
+      CREATE TABLE IF NOT EXISTS event_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id INTEGER NOT NULL,
+        connpass_updated_at TEXT,
+        changes TEXT NOT NULL,
+        recorded_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (event_id) REFERENCES events(event_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_revisions_event_id ON event_revisions(event_id, id);
+    `);
+  },
+};
@@ -0,0 +1,46 @@
+import { addColumnIfMissing } from "./helpers.js";
+import type { Migration } from "./types.js";
+
+/**
+ * イベントの全文検索インデックスと処理済みイベントのカテゴリ
+ * trigram トークナイザで日本語も部分一致で検索できるようにする
+ */
+export const migration: Migration = {
+  version: 7,
+  name: "event_search",
+  up(db) {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS events_fts USING fts5(
+        event_id UNINDEXED,
+        title,
+        catch,
+        description,
+        group_title,
+        place,
+        tokenize = 'trigram'
+      );
+
+      -- 保存済みのイベントをインデックスに追加 (説明文のHTMLタグは次回保存時に除去される)
+      INSERT INTO events_fts (event_id, title, catch, description, group_title, place)
+      SELECT
+        event_id,
+        title,
+        json_extract(raw_json, '$.catch'),
+        json_extract(raw_json, '$.description'),
+        json_extract(raw_json, '$.group.title'),
+        place
+      FROM events;
+    `);
+
+    addColumnIfMissing(db, "processed_events", "category", "TEXT");
+    // 人気・フォローは記録していないため、登壇・興味のみ復元
+    db.exec(`
+      UPDATE processed_events
+      SET category = CASE
+        WHEN has_speaker_opportunity = 1 THEN 'speaker'
+        WHEN has_interest_match = 1 THEN 'interest'
+      END
+      WHERE category IS NULL
+    `);
+  },
+};
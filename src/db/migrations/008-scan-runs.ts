@@ -0,0 +1,43 @@
+import type { Migration } from "./types.js";
+
+/**
+ * スキャンの実行履歴と、各実行で判定したイベント
+ */
+export const migration: Migration = {
+  version: 8,
+  name: "scan_runs",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS scan_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        triggered_by TEXT NOT NULL,
+        dry_run INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'running',
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        fetch_mode TEXT,
+        event_count INTEGER,
+        action_counts TEXT,
+        llm_calls INTEGER,
+        calendar_writes INTEGER,
+        fetch_failures TEXT,
+        error TEXT
+      );
+
+      -- 処理済みでスキップしたイベントは記録しない (判定した実行の記録を参照)
+      CREATE TABLE IF NOT EXISTS scan_run_events (
+        run_id INTEGER NOT NULL,
+        event_id INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        action TEXT NOT NULL,
+        category TEXT,
+        interest_score INTEGER,
+        PRIMARY KEY (run_id, event_id),
+        FOREIGN KEY (run_id) REFERENCES scan_runs(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_scan_runs_started_at ON scan_runs(started_at);
+      CREATE INDEX IF NOT EXISTS idx_scan_run_events_event_id ON scan_run_events(event_id);
+    `);
+  },
+};
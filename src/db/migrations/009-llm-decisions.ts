@@ -0,0 +1,29 @@
+import type { Migration } from "./types.js";
+
+/**
+ * LLM 呼び出しの監査ログ (応答・トークン数・エラー)
+ */
+export const migration: Migration = {
+  version: 9,
+  name: "llm_decisions",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS llm_decisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id INTEGER NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_hash TEXT NOT NULL,
+        raw_response TEXT,
+        parsed_result TEXT,
+        latency_ms INTEGER NOT NULL,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        error TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_llm_decisions_event_id ON llm_decisions(event_id);
+    `);
+  },
+};
@@ -0,0 +1,20 @@
+import type { Migration } from "./types.js";
+
+/**
+ * LLM 分析結果のキャッシュ (イベントごとに最新の1件)
+ */
+export const migration: Migration = {
+  version: 10,
+  name: "llm_analysis_cache",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS llm_analysis_cache (
+        event_id INTEGER PRIMARY KEY,
+        content_hash TEXT NOT NULL,
+        context_hash TEXT NOT NULL,
+        result TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+  },
+};
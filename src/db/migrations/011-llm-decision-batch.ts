@@ -0,0 +1,13 @@
+import { addColumnIfMissing } from "./helpers.js";
+import type { Migration } from "./types.js";
+
+/**
+ * バッチ分析の記録用に、1回の呼び出しで分析したイベント数を追加
+ */
+export const migration: Migration = {
+  version: 11,
+  name: "llm_decision_batch_size",
+  up(db) {
+    addColumnIfMissing(db, "llm_decisions", "batch_size", "INTEGER NOT NULL DEFAULT 1");
+  },
+};
@@ -0,0 +1,15 @@
+import { addColumnIfMissing } from "./helpers.js";
+import type { Migration } from "./types.js";
+
+/**
+ * 実行履歴に LLM のトークン数と費用を追加
+ */
+export const migration: Migration = {
+  version: 12,
+  name: "scan_run_cost",
+  up(db) {
+    addColumnIfMissing(db, "scan_runs", "llm_input_tokens", "INTEGER");
+    addColumnIfMissing(db, "scan_runs", "llm_output_tokens", "INTEGER");
+    addColumnIfMissing(db, "scan_runs", "llm_cost_usd", "REAL");
+  },
+};
@@ -0,0 +1,21 @@
+import type { Migration } from "./types.js";
+
+/**
+ * 埋め込みベクトル (プロファイル・イベントごと、モデルごとに最新の1件)
+ */
+export const migration: Migration = {
+  version: 13,
+  name: "embeddings",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        key TEXT NOT NULL,
+        model TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (key, model)
+      );
+    `);
+  },
+};
@@ -0,0 +1,19 @@
+import type { Migration } from "./types.js";
+
+/**
+ * イベントへの評価 (feedback コマンド、イベントごとに最新の1件)
+ */
+export const migration: Migration = {
+  version: 14,
+  name: "event_feedback",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS event_feedback (
+        event_id INTEGER PRIMARY KEY,
+        label TEXT NOT NULL CHECK (label IN ('like', 'dislike')),
+        note TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+    `);
+  },
+};
@@ -0,0 +1,21 @@
+import type { Migration } from "./types.js";
+
+/**
+ * eval コマンドの評価結果 (比較用に判定方法ごとの指標・食い違いを JSON で保存)
+ */
+export const migration: Migration = {
+  version: 15,
+  name: "eval_runs",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS eval_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dataset TEXT NOT NULL,
+        dataset_hash TEXT NOT NULL,
+        event_count INTEGER NOT NULL,
+        report TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `);
+  },
+};
@@ -0,0 +1,13 @@
+import { addColumnIfMissing } from "./helpers.js";
+import type { Migration } from "./types.js";
+
+/**
+ * カレンダーのタイトルに表示中の定員状況 (状況が変わったときに表示を外すため)
+ */
+export const migration: Migration = {
+  version: 16,
+  name: "capacity_marker",
+  up(db) {
+    addColumnIfMissing(db, "processed_events", "capacity_marker", "TEXT");
+  },
+};
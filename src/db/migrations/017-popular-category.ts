@@ -0,0 +1,30 @@
+import type { Migration } from "./types.js";
+
+/** interests.min_participants の既定値 (マイグレーションでは設定を参照できない) */
+const DEFAULT_MIN_PARTICIPANTS = 50;
+
+/**
+ * 007 でカテゴリを復元した処理済みイベントのうち、人気イベントを 'popular' に修正
+ * 実行時と同じく参加者数が min_participants 以上で登壇機会のないものを人気イベントとする
+ * (参加者数は保存済みの connpass のレスポンス、なければ定員状況の履歴の最新値)
+ */
+export const migration: Migration = {
+  version: 17,
+  name: "popular_category",
+  up(db) {
+    db.prepare(`
+      UPDATE processed_events
+      SET category = 'popular'
+      WHERE category = 'interest'
+        AND has_speaker_opportunity = 0
+        AND processed_at <= (SELECT applied_at FROM schema_version WHERE version = 7)
+        AND COALESCE(
+          (SELECT json_extract(e.raw_json, '$.accepted')
+           FROM events e WHERE e.event_id = processed_events.event_id),
+          (SELECT h.accepted
+           FROM event_capacity_history h WHERE h.event_id = processed_events.event_id
+           ORDER BY h.id DESC LIMIT 1)
+        ) >= ?
+    `).run(DEFAULT_MIN_PARTICIPANTS);
+  },
+};
@@ -0,0 +1,24 @@
+import type Database from "better-sqlite3";
+
+/**
+ * カラムが存在するかどうか
+ */
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * カラムが存在しない場合のみ追加
+ * マイグレーション導入前のDBでは一部のカラムが追加済みのため、存在を確認してから追加する
+ */
+export function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,43 @@
+import { migration as initial } from "./001-initial.js";
+import { migration as scanCursors } from "./002-scan-cursors.js";
+import { migration as distance } from "./003-distance.js";
+import { migration as capacityHistory } from "./004-capacity-history.js";
+import { migration as cancellation } from "./005-cancellation.js";
+import { migration as eventRevisions } from "./006-event-revisions.js";
+import { migration as eventSearch } from "./007-event-search.js";
+import { migration as scanRuns } from "./008-scan-runs.js";
+import { migration as llmDecisions } from "./009-llm-decisions.js";
+import { migration as llmAnalysisCache } from "./010-llm-analysis-cache.js";
+import { migration as llmDecisionBatch } from "./011-llm-decision-batch.js";
+import { migration as scanRunCost } from "./012-scan-run-cost.js";
+import { migration as embeddings } from "./013-embeddings.js";
+import { migration as eventFeedback } from "./014-event-feedback.js";
+import { migration as evalRuns } from "./015-eval-runs.js";
+import { migration as capacityMarker } from "./016-capacity-marker.js";
+import { migration as popularCategory } from "./017-popular-category.js";
+import type { Migration } from "./types.js";
+
+export type { Migration } from "./types.js";
+
+/**
+ * 適用順のマイグレーション一覧 (新しいマイグレーションは末尾に追加)
+ */
+export const migrations: Migration[] = [
+  initial,
+  scanCursors,
+  distance,
+  capacityHistory,
+  cancellation,
+  eventRevisions,
+  eventSearch,
+  scanRuns,
+  llmDecisions,
+  llmAnalysisCache,
+  llmDecisionBatch,
+  scanRunCost,
+  embeddings,
+  eventFeedback,
+  evalRuns,
+  capacityMarker,
+  popularCategory,
+];
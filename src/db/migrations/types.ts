@@ -0,0 +1,11 @@
+import type Database from "better-sqlite3";
+
+/**
+ * スキーママイグレーション
+ * version は 1 から連番で、適用済みのマイグレーションは変更しない
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+}
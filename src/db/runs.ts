@@ -0,0 +1,268 @@
+import type Database from "better-sqlite3";
+import type { FetchFailure } from "../connpass/client.js";
+import type { EventCategory } from "../connpass/types.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:runs");
+
+/** スキャンの起動元 */
+export type ScanTrigger = "cli" | "daemon";
+
+export interface ScanRunRecord {
+  id: number;
+  triggeredBy: ScanTrigger;
+  dryRun: boolean;
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  finishedAt: string | null;
+  fetchMode: "full" | "incremental" | null;
+  eventCount: number | null;
+  /** ScanResult.action ごとの件数 */
+  actionCounts: Record<string, number>;
+  llmCalls: number | null;
+  llmInputTokens: number | null;
+  llmOutputTokens: number | null;
+  /** LLM の費用 (USD、料金表にないモデルは含まない) */
+  llmCostUsd: number | null;
+  calendarWrites: number | null;
+  fetchFailures: FetchFailure[];
+  error: string | null;
+}
+
+export interface ScanRunEventRecord {
+  runId: number;
+  eventId: number;
+  title: string;
+  action: string;
+  category: EventCategory | null;
+  interestScore: number | null;
+}
+
+/**
+ * 実行完了時に記録する集計
+ */
+export interface ScanRunSummary {
+  fetchMode: "full" | "incremental";
+  llmCalls: number;
+  llmInputTokens: number;
+  llmOutputTokens: number;
+  llmCostUsd: number;
+  calendarWrites: number;
+  fetchFailures: FetchFailure[];
+  events: Array<Omit<ScanRunEventRecord, "runId">>;
+}
+
+interface ScanRunRow {
+  id: number;
+  triggered_by: ScanTrigger;
+  dry_run: number;
+  status: ScanRunRecord["status"];
+  started_at: string;
+  finished_at: string | null;
+  fetch_mode: ScanRunRecord["fetchMode"];
+  event_count: number | null;
+  action_counts: string | null;
+  llm_calls: number | null;
+  llm_input_tokens: number | null;
+  llm_output_tokens: number | null;
+  llm_cost_usd: number | null;
+  calendar_writes: number | null;
+  fetch_failures: string | null;
+  error: string | null;
+}
+
+interface ScanRunEventRow {
+  run_id: number;
+  event_id: number;
+  title: string;
+  action: string;
+  category: EventCategory | null;
+  interest_score: number | null;
+}
+
+function toRunRecord(row: ScanRunRow): ScanRunRecord {
+  return {
+    id: row.id,
+    triggeredBy: row.triggered_by,
+    dryRun: row.dry_run === 1,
+    status: row.status,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    fetchMode: row.fetch_mode,
+    eventCount: row.event_count,
+    actionCounts: row.action_counts ? JSON.parse(row.action_counts) : {},
+    llmCalls: row.llm_calls,
+    llmInputTokens: row.llm_input_tokens,
+    llmOutputTokens: row.llm_output_tokens,
+    llmCostUsd: row.llm_cost_usd,
+    calendarWrites: row.calendar_writes,
+    fetchFailures: row.fetch_failures ? JSON.parse(row.fetch_failures) : [],
+    error: row.error,
+  };
+}
+
+function toRunEventRecord(row: ScanRunEventRow): ScanRunEventRecord {
+  return {
+    runId: row.run_id,
+    eventId: row.event_id,
+    title: row.title,
+    action: row.action,
+    category: row.category,
+    interestScore: row.interest_score,
+  };
+}
+
+/**
+ * スキャン実行履歴DBアクセス
+ */
+export class ScanRunRepository {
+  private db: Database.Database;
+  private stmtStart: Database.Statement;
+  private stmtFinish: Database.Statement;
+  private stmtFail: Database.Statement;
+  private stmtInsertEvent: Database.Statement;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+
+    this.stmtStart = db.prepare(`
+      INSERT INTO scan_runs (triggered_by, dry_run, started_at)
+      VALUES (@triggered_by, @dry_run, @started_at)
+    `);
+
+    this.stmtFinish = db.prepare(`
+      UPDATE scan_runs SET
+        status = 'completed',
+        finished_at = @finished_at,
+        fetch_mode = @fetch_mode,
+        event_count = @event_count,
+        action_counts = @action_counts,
+        llm_calls = @llm_calls,
+        llm_input_tokens = @llm_input_tokens,
+        llm_output_tokens = @llm_output_tokens,
+        llm_cost_usd = @llm_cost_usd,
+        calendar_writes = @calendar_writes,
+        fetch_failures = @fetch_failures
+      WHERE id = @id
+    `);
+
+    this.stmtFail = db.prepare(`
+      UPDATE scan_runs SET status = 'failed', finished_at = @finished_at, error = @error
+      WHERE id = @id
+    `);
+
+    this.stmtInsertEvent = db.prepare(`
+      INSERT OR REPLACE INTO scan_run_events (run_id, event_id, title, action, category, interest_score)
+      VALUES (@run_id, @event_id, @title, @action, @category, @interest_score)
+    `);
+  }
+
+  /**
+   * 実行開始を記録
+   * @returns 実行ID
+   */
+  start(params: { trigger: ScanTrigger; dryRun: boolean }): number {
+    const result = this.stmtStart.run({
+      triggered_by: params.trigger,
+      dry_run: params.dryRun ? 1 : 0,
+      started_at: new Date().toISOString(),
+    });
+    const runId = Number(result.lastInsertRowid);
+    logger.debug({ runId, trigger: params.trigger }, "Scan run started");
+    return runId;
+  }
+
+  /**
+   * 実行完了を記録 (集計と各イベントの判定結果)
+   */
+  finish(runId: number, summary: ScanRunSummary): void {
+    const actionCounts: Record<string, number> = {};
+    for (const event of summary.events) {
+      actionCounts[event.action] = (actionCounts[event.action] ?? 0) + 1;
+    }
+
+    const save = this.db.transaction(() => {
+      this.stmtFinish.run({
+        id: runId,
+        finished_at: new Date().toISOString(),
+        fetch_mode: summary.fetchMode,
+        event_count: summary.events.length,
+        action_counts: JSON.stringify(actionCounts),
+        llm_calls: summary.llmCalls,
+        llm_input_tokens: summary.llmInputTokens,
+        llm_output_tokens: summary.llmOutputTokens,
+        llm_cost_usd: summary.llmCostUsd,
+        calendar_writes: summary.calendarWrites,
+        fetch_failures: JSON.stringify(summary.fetchFailures),
+      });
+      for (const event of summary.events) {
+        if (event.action === "already_processed") {
+          continue;
+        }
+        this.stmtInsertEvent.run({
+          run_id: runId,
+          event_id: event.eventId,
+          title: event.title,
+          action: event.action,
+          category: event.category,
+          interest_score: event.interestScore,
+        });
+      }
+    });
+    save();
+
+    logger.debug({ runId, actionCounts }, "Scan run finished");
+  }
+
+  /**
+   * 実行失敗を記録
+   */
+  fail(runId: number, error: unknown): void {
+    this.stmtFail.run({
+      id: runId,
+      finished_at: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    logger.debug({ runId }, "Scan run failed");
+  }
+
+  /**
+   * 最近の実行履歴を取得 (新しい順)
+   */
+  list(limit = 20): ScanRunRecord[] {
+    const stmt = this.db.prepare("SELECT * FROM scan_runs ORDER BY id DESC LIMIT ?");
+    const rows = stmt.all(limit) as ScanRunRow[];
+    return rows.map(toRunRecord);
+  }
+
+  /**
+   * 実行履歴と、その実行で判定したイベントを取得
+   */
+  get(runId: number): { run: ScanRunRecord; events: ScanRunEventRecord[] } | null {
+    const row = this.db.prepare("SELECT * FROM scan_runs WHERE id = ?").get(runId) as
+      | ScanRunRow
+      | undefined;
+    if (!row) {
+      return null;
+    }
+    const eventRows = this.db
+      .prepare("SELECT * FROM scan_run_events WHERE run_id = ? ORDER BY action, event_id")
+      .all(runId) as ScanRunEventRow[];
+    return { run: toRunRecord(row), events: eventRows.map(toRunEventRecord) };
+  }
+
+  /**
+   * イベントごとの判定履歴を取得 (新しい順)
+   */
+  getEventHistory(eventId: number): Array<ScanRunEventRecord & { startedAt: string }> {
+    const stmt = this.db.prepare(`
+      SELECT e.*, r.started_at
+      FROM scan_run_events e
+      JOIN scan_runs r ON r.id = e.run_id
+      WHERE e.event_id = ?
+      ORDER BY e.run_id DESC
+    `);
+    const rows = stmt.all(eventId) as Array<ScanRunEventRow & { started_at: string }>;
+    return rows.map((r) => ({ ...toRunEventRecord(r), startedAt: r.started_at }));
+  }
+}
@@ -2,13 +2,14 @@ import { existsSync, mkdirSync } from "node:fs";
 import { dirname } from "node:path";
 import Database from "better-sqlite3";
 import { createChildLogger } from "../utils/logger.js";
+import { runMigrations } from "./migrate.js";
 
 const logger = createChildLogger("db");
 
 /**
- * データベーススキーマを初期化
+ * データベースを開く (マイグレーションは適用しない)
  */
-export function initializeDatabase(dbPath: string): Database.Database {
+export function openDatabase(dbPath: string): Database.Database {
   // ディレクトリが存在しない場合は作成
   const dir = dirname(dbPath);
   if (!existsSync(dir)) {
@@ -20,51 +21,21 @@ export function initializeDatabase(dbPath: string): Database.Database {
   // WALモードを有効化 (パフォーマンス向上)
   db.pragma("journal_mode = WAL");
 
-  // テーブル作成
-  db.exec(`
-    -- イベントテーブル
-    CREATE TABLE IF NOT EXISTS events (
-      event_id INTEGER PRIMARY KEY,
-      title TEXT NOT NULL,
-      event_url TEXT NOT NULL,
-      started_at TEXT NOT NULL,
-      ended_at TEXT NOT NULL,
-      place TEXT,
-      address TEXT,
-      is_online INTEGER NOT NULL DEFAULT 0,
-      is_tokyo INTEGER NOT NULL DEFAULT 0,
-      connpass_updated_at TEXT,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    -- 処理済みイベントテーブル
-    CREATE TABLE IF NOT EXISTS processed_events (
-      event_id INTEGER PRIMARY KEY,
-      has_speaker_opportunity INTEGER NOT NULL DEFAULT 0,
-      has_interest_match INTEGER NOT NULL DEFAULT 0,
-      interest_score INTEGER,
-      calendar_event_id TEXT,
-      connpass_updated_at TEXT,
-      processed_at TEXT NOT NULL DEFAULT (datetime('now')),
-      FOREIGN KEY (event_id) REFERENCES events(event_id)
-    );
+  return db;
+}
 
-    -- インデックス
-    CREATE INDEX IF NOT EXISTS idx_events_started_at ON events(started_at);
-    CREATE INDEX IF NOT EXISTS idx_processed_events_processed_at ON processed_events(processed_at);
-  `);
+/**
+ * データベースを開き、未適用のマイグレーションを適用
+ * DB のスキーマがアプリより新しい場合は SchemaVersionError
+ */
+export function initializeDatabase(dbPath: string): Database.Database {
+  const db = openDatabase(dbPath);
 
-  // マイグレーション: connpass_updated_at カラムを追加
-  try {
-    db.exec(`ALTER TABLE events ADD COLUMN connpass_updated_at TEXT`);
-  } catch {
-    // カラムが既に存在する場合は無視
-  }
   try {
-    db.exec(`ALTER TABLE processed_events ADD COLUMN connpass_updated_at TEXT`);
-  } catch {
-    // カラムが既に存在する場合は無視
+    runMigrations(db);
+  } catch (error) {
+    db.close();
+    throw error;
   }
 
   logger.debug({ path: dbPath }, "Database initialized");
@@ -0,0 +1,170 @@
+import type Database from "better-sqlite3";
+import type { EventCategory } from "../connpass/types.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("db:search");
+
+/** trigram トークナイザで検索できる最小の文字数 */
+const MIN_TRIGRAM_LENGTH = 3;
+
+/** 検索対象のカラム (短い語の部分一致検索用) */
+const SEARCH_COLUMNS = ["title", "catch", "description", "group_title", "place"];
+
+export interface EventSearchOptions {
+  query: string;
+  /** 開催日の範囲 (yyyy-MM-dd, 両端を含む) */
+  from?: string;
+  to?: string;
+  category?: EventCategory;
+  venue?: "online" | "offline";
+  minScore?: number;
+  /** 並び順 (date: 開催日の新しい順, distance: 拠点からの距離が近い順、距離不明のイベントは末尾) */
+  sort?: "date" | "distance";
+  limit?: number;
+}
+
+export interface EventSearchResult {
+  eventId: number;
+  title: string;
+  url: string;
+  startedAt: string;
+  place: string | null;
+  groupTitle: string | null;
+  isOnline: boolean;
+  /** 拠点からの距離 (km, geo.origins 未設定・座標不明の場合は null) */
+  distanceKm: number | null;
+  category: EventCategory | null;
+  interestScore: number | null;
+  calendarEventId: string | null;
+}
+
+/**
+ * 検索語を FTS5 の MATCH 式に変換 (各語をフレーズとして AND 検索)
+ * 3文字未満の語は trigram で検索できないため LIKE で絞り込む
+ */
+function parseQuery(query: string): { match: string | null; likeTerms: string[] } {
+  const terms = query.split(/\s+/).filter(Boolean);
+  const matchTerms = terms.filter((t) => [...t].length >= MIN_TRIGRAM_LENGTH);
+  const likeTerms = terms.filter((t) => [...t].length < MIN_TRIGRAM_LENGTH);
+  return {
+    match:
+      matchTerms.length > 0
+        ? matchTerms.map((t) => `"${t.replaceAll('"', '""')}"`).join(" AND ")
+        : null,
+    likeTerms,
+  };
+}
+
+/**
+ * 検索条件を WHERE 句の条件に変換
+ */
+function buildConditions(
+  options: EventSearchOptions,
+  match: string | null,
+  likeTerms: string[],
+): { conditions: string[]; likeParams: Record<string, string> } {
+  const conditions: string[] = [];
+  const likeParams: Record<string, string> = {};
+
+  if (match) {
+    conditions.push("events_fts MATCH @match");
+  }
+  likeTerms.forEach((term, index) => {
+    const escaped = term.replace(/[\\%_]/g, (c) => `\\${c}`);
+    const columns = SEARCH_COLUMNS.map((c) => `events_fts.${c} LIKE @like${index} ESCAPE '\\'`);
+    conditions.push(`(${columns.join(" OR ")})`);
+    likeParams[`like${index}`] = `%${escaped}%`;
+  });
+  if (options.from) {
+    conditions.push("substr(e.started_at, 1, 10) >= @from");
+  }
+  if (options.to) {
+    conditions.push("substr(e.started_at, 1, 10) <= @to");
+  }
+  if (options.category) {
+    conditions.push("p.category = @category");
+  }
+  if (options.venue) {
+    conditions.push(options.venue === "online" ? "e.is_online = 1" : "e.is_online = 0");
+  }
+  if (options.minScore !== undefined) {
+    conditions.push("p.interest_score >= @minScore");
+  }
+  return { conditions, likeParams };
+}
+
+/** 並び順ごとの ORDER BY 句 */
+const ORDER_BY: Record<NonNullable<EventSearchOptions["sort"]>, string> = {
+  date: "e.started_at DESC",
+  distance: "e.distance_km IS NULL, e.distance_km, e.started_at",
+};
+
+/**
+ * 保存済みイベントの全文検索
+ * インデックスは EventRepository.saveEvents() で更新される
+ */
+export class EventSearchRepository {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  /**
+   * イベントを検索 (既定は開催日の新しい順)
+   */
+  search(options: EventSearchOptions): EventSearchResult[] {
+    const { match, likeTerms } = parseQuery(options.query);
+    const { conditions, likeParams } = buildConditions(options, match, likeTerms);
+
+    const stmt = this.db.prepare(`
+      SELECT
+        e.event_id, e.title, e.event_url, e.started_at, e.place, e.is_online, e.distance_km,
+        events_fts.group_title, p.category, p.interest_score, p.calendar_event_id
+      FROM events_fts
+      JOIN events e ON e.event_id = events_fts.event_id
+      LEFT JOIN processed_events p ON p.event_id = e.event_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY ${ORDER_BY[options.sort ?? "date"]}
+      LIMIT @limit
+    `);
+    const params = {
+      ...likeParams,
+      limit: options.limit ?? 50,
+      ...(match ? { match } : {}),
+      ...(options.from ? { from: options.from } : {}),
+      ...(options.to ? { to: options.to } : {}),
+      ...(options.category ? { category: options.category } : {}),
+      ...(options.minScore !== undefined ? { minScore: options.minScore } : {}),
+    };
+    const rows = stmt.all(params) as Array<{
+      event_id: number;
+      title: string;
+      event_url: string;
+      started_at: string;
+      place: string | null;
+      is_online: number;
+      distance_km: number | null;
+      group_title: string | null;
+      category: EventCategory | null;
+      interest_score: number | null;
+      calendar_event_id: string | null;
+    }>;
+
+    logger.debug({ query: options.query, match, count: rows.length }, "Events searched");
+
+    return rows.map((r) => ({
+      eventId: r.event_id,
+      title: r.title,
+      url: r.event_url,
+      startedAt: r.started_at,
+      place: r.place,
+      groupTitle: r.group_title,
+      isOnline: r.is_online === 1,
+      distanceKm: r.distance_km,
+      category: r.category,
+      interestScore: r.interest_score,
+      calendarEventId: r.calendar_event_id,
+    }));
+  }
+}
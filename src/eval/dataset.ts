@@ -0,0 +1,125 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import type { ConnpassEvent } from "../connpass/types.js";
+
+/**
+ * 評価データの1行
+ * event は connpass API のレスポンス形式 (判定に使わない項目は省略可)
+ */
+const evalCaseSchema = z.object({
+  event: z
+    .object({
+      id: z.number().int(),
+      title: z.string(),
+      catch: z.string().default(""),
+      description: z.string().default(""),
+      url: z.string().default(""),
+      started_at: z.string().default(""),
+      ended_at: z.string().default(""),
+      accepted: z.number().int().default(0),
+      place: z.string().nullable().default(null),
+      address: z.string().nullable().default(null),
+      group: z
+        .object({ id: z.number().int(), title: z.string(), url: z.string().default("") })
+        .nullable()
+        .default(null),
+    })
+    .passthrough(),
+  // 正解ラベル (省略した項目は評価しない)
+  expected: z
+    .object({
+      interest: z.boolean().optional(),
+      speaker: z.boolean().optional(),
+    })
+    .refine((e) => e.interest !== undefined || e.speaker !== undefined, {
+      message: "expected requires interest or speaker",
+    }),
+});
+
+/**
+ * 正解ラベル付きのイベント
+ */
+export interface EvalCase {
+  event: ConnpassEvent;
+  expected: {
+    interest?: boolean | undefined;
+    speaker?: boolean | undefined;
+  };
+}
+
+/**
+ * 評価データ
+ */
+export interface EvalDataset {
+  path: string;
+  /** ファイル内容の SHA-256 (先頭16文字、別のデータで評価した結果の比較を検出するため) */
+  hash: string;
+  cases: EvalCase[];
+}
+
+/**
+ * 評価データの形式が不正
+ */
+export class DatasetError extends Error {
+  constructor(path: string, line: number, message: string) {
+    super(`${path}:${line}: ${message}`);
+    this.name = "DatasetError";
+  }
+}
+
+function toConnpassEvent(event: z.infer<typeof evalCaseSchema>["event"]): ConnpassEvent {
+  return {
+    hash_tag: "",
+    limit: null,
+    event_type: "participation",
+    waiting: 0,
+    updated_at: "",
+    owner_id: 0,
+    owner_nickname: "",
+    owner_display_name: "",
+    lat: null,
+    lon: null,
+    ...event,
+  } as ConnpassEvent;
+}
+
+/**
+ * JSONL 形式の評価データを読み込む (空行は無視)
+ */
+export function loadDataset(path: string): EvalDataset {
+  const content = readFileSync(path, "utf-8");
+  const cases: EvalCase[] = [];
+  const ids = new Set<number>();
+
+  for (const [index, line] of content.split("\n").entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new DatasetError(path, index + 1, "invalid JSON");
+    }
+    const result = evalCaseSchema.safeParse(json);
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`);
+      throw new DatasetError(path, index + 1, errors.join(", "));
+    }
+    if (ids.has(result.data.event.id)) {
+      throw new DatasetError(path, index + 1, `duplicate event id ${result.data.event.id}`);
+    }
+    ids.add(result.data.event.id);
+    cases.push({ event: toConnpassEvent(result.data.event), expected: result.data.expected });
+  }
+
+  if (cases.length === 0) {
+    throw new DatasetError(path, 1, "no events");
+  }
+  return {
+    path,
+    hash: createHash("sha256").update(content).digest("hex").slice(0, 16),
+    cases,
+  };
+}
@@ -0,0 +1,93 @@
+import type { Disagreement, EvalReport, MatcherEvaluation } from "./runner.js";
+
+/**
+ * 指標の比較 (どちらかで計算できなかった場合は null)
+ */
+export interface MetricChange {
+  metric: string;
+  base: number | null;
+  target: number | null;
+}
+
+/**
+ * 同じ名前の判定方法の比較
+ */
+export interface MatcherDiff {
+  name: string;
+  metrics: MetricChange[];
+  /** 基準の実行では正解ラベルと食い違い、比較対象では一致した判定 */
+  fixed: Disagreement[];
+  /** 比較対象で新たに正解ラベルと食い違った判定 */
+  regressed: Disagreement[];
+}
+
+/**
+ * 2回の評価の比較
+ */
+export interface EvalDiff {
+  /** 同じ評価データで評価したか (異なる場合は指標を単純に比較できない) */
+  sameDataset: boolean;
+  matchers: MatcherDiff[];
+  /** 片方の実行にのみある判定方法 */
+  onlyInBase: string[];
+  onlyInTarget: string[];
+}
+
+/** 比較する指標 */
+const METRICS: Array<[string, (evaluation: MatcherEvaluation) => number | null]> = [
+  ["interest.precision", (e) => e.interest?.precision ?? null],
+  ["interest.recall", (e) => e.interest?.recall ?? null],
+  ["interest.f1", (e) => e.interest?.f1 ?? null],
+  ["speaker.precision", (e) => e.speaker?.precision ?? null],
+  ["speaker.recall", (e) => e.speaker?.recall ?? null],
+  ["speaker.f1", (e) => e.speaker?.f1 ?? null],
+  ["brier", (e) => e.calibration?.brier ?? null],
+  ["failures", (e) => e.failures],
+  ["latency.mean_ms", (e) => e.latency?.meanMs ?? null],
+  ["cost_usd", (e) => e.cost?.costUsd ?? null],
+];
+
+function disagreementKey(disagreement: Disagreement): string {
+  return `${disagreement.kind}:${disagreement.eventId}`;
+}
+
+/**
+ * 一方にのみある食い違い
+ */
+function subtract(from: Disagreement[], other: Disagreement[]): Disagreement[] {
+  const keys = new Set(other.map(disagreementKey));
+  return from.filter((d) => !keys.has(disagreementKey(d)));
+}
+
+/**
+ * 2回の評価を判定方法ごとに比較
+ */
+export function diffReports(base: EvalReport, target: EvalReport): EvalDiff {
+  const targets = new Map(target.matchers.map((m) => [m.name, m]));
+  const baseNames = new Set(base.matchers.map((m) => m.name));
+
+  const matchers: MatcherDiff[] = [];
+  for (const baseMatcher of base.matchers) {
+    const targetMatcher = targets.get(baseMatcher.name);
+    if (!targetMatcher) {
+      continue;
+    }
+    matchers.push({
+      name: baseMatcher.name,
+      metrics: METRICS.map(([metric, get]) => ({
+        metric,
+        base: get(baseMatcher),
+        target: get(targetMatcher),
+      })),
+      fixed: subtract(baseMatcher.disagreements, targetMatcher.disagreements),
+      regressed: subtract(targetMatcher.disagreements, baseMatcher.disagreements),
+    });
+  }
+
+  return {
+    sameDataset: base.datasetHash === target.datasetHash,
+    matchers,
+    onlyInBase: base.matchers.filter((m) => !targets.has(m.name)).map((m) => m.name),
+    onlyInTarget: target.matchers.filter((m) => !baseNames.has(m.name)).map((m) => m.name),
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { calibrate, classify, percentile } from "./metrics.js";
+
+describe("classify", () => {
+  it("混同行列と適合率・再現率・F1・正解率", () => {
+    const metrics = classify([
+      { expected: true, predicted: true },
+      { expected: true, predicted: true },
+      { expected: true, predicted: false },
+      { expected: false, predicted: true },
+      { expected: false, predicted: false },
+    ]);
+    expect(metrics).toMatchObject({
+      truePositives: 2,
+      falsePositives: 1,
+      falseNegatives: 1,
+      trueNegatives: 1,
+      accuracy: 0.6,
+    });
+    expect(metrics.precision).toBeCloseTo(2 / 3);
+    expect(metrics.recall).toBeCloseTo(2 / 3);
+    expect(metrics.f1).toBeCloseTo(2 / 3);
+  });
+
+  it("陽性の予測・正解がなければ null", () => {
+    const metrics = classify([{ expected: false, predicted: false }]);
+    expect(metrics).toMatchObject({ precision: null, recall: null, f1: null, accuracy: 1 });
+    expect(classify([]).accuracy).toBeNull();
+  });
+
+  it("適合率・再現率がともに 0 なら F1 は 0", () => {
+    const metrics = classify([
+      { expected: true, predicted: false },
+      { expected: false, predicted: true },
+    ]);
+    expect(metrics.f1).toBe(0);
+  });
+});
+
+describe("calibrate", () => {
+  it("スコア帯ごとの陽性率とブライアスコア", () => {
+    const calibration = calibrate([
+      { score: 10, expected: false },
+      { score: 50, expected: false },
+      { score: 90, expected: true },
+      { score: 100, expected: true },
+    ]);
+    expect(calibration?.buckets).toEqual([
+      { range: "0-19", count: 1, meanScore: 10, positiveRate: 0 },
+      { range: "40-59", count: 1, meanScore: 50, positiveRate: 0 },
+      { range: "80-100", count: 2, meanScore: 95, positiveRate: 1 },
+    ]);
+    expect(calibration?.brier).toBeCloseTo(0.0675);
+  });
+
+  it("スコアがなければ null", () => {
+    expect(calibrate([])).toBeNull();
+  });
+});
+
+describe("percentile", () => {
+  it("最近傍法で計算", () => {
+    const values = [5, 1, 4, 2, 3];
+    expect(percentile(values, 50)).toBe(3);
+    expect(percentile(values, 90)).toBe(5);
+    expect(percentile(values, 0)).toBe(1);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
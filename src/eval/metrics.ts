@@ -0,0 +1,112 @@
+/**
+ * 2値分類の集計 (正解・予測の両方がある場合のみ数える)
+ */
+export interface ClassificationMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  /** 予測が陽性のものがない場合は null */
+  precision: number | null;
+  /** 正解が陽性のものがない場合は null */
+  recall: number | null;
+  f1: number | null;
+  accuracy: number | null;
+}
+
+/**
+ * スコア帯ごとの実際の陽性率
+ */
+export interface CalibrationBucket {
+  /** スコアの範囲 (例: "40-59") */
+  range: string;
+  count: number;
+  meanScore: number;
+  positiveRate: number;
+}
+
+export interface Calibration {
+  buckets: CalibrationBucket[];
+  /** スコア / 100 を確率とみなしたブライアスコア (0 が最良) */
+  brier: number;
+}
+
+/** 較正を集計するスコア帯の幅 */
+const BUCKET_WIDTH = 20;
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+/**
+ * 適合率・再現率・F1・正解率を計算
+ */
+export function classify(
+  pairs: Array<{ expected: boolean; predicted: boolean }>,
+): ClassificationMetrics {
+  const count = (expected: boolean, predicted: boolean) =>
+    pairs.filter((p) => p.expected === expected && p.predicted === predicted).length;
+  const tp = count(true, true);
+  const fp = count(false, true);
+  const fn = count(true, false);
+  const tn = count(false, false);
+
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  let f1: number | null = null;
+  if (precision !== null && recall !== null) {
+    f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  }
+  return {
+    truePositives: tp,
+    falsePositives: fp,
+    falseNegatives: fn,
+    trueNegatives: tn,
+    precision,
+    recall,
+    f1,
+    accuracy: ratio(tp + tn, pairs.length),
+  };
+}
+
+/**
+ * スコア (0-100) の較正を集計
+ * @returns スコアがない場合は null
+ */
+export function calibrate(pairs: Array<{ score: number; expected: boolean }>): Calibration | null {
+  if (pairs.length === 0) {
+    return null;
+  }
+
+  const buckets: CalibrationBucket[] = [];
+  for (let low = 0; low < 100; low += BUCKET_WIDTH) {
+    const high = low + BUCKET_WIDTH;
+    // 最後の帯は 100 を含む
+    const inBucket = pairs.filter((p) => p.score >= low && (p.score < high || high >= 100));
+    if (inBucket.length === 0) {
+      continue;
+    }
+    buckets.push({
+      range: `${low}-${high >= 100 ? 100 : high - 1}`,
+      count: inBucket.length,
+      meanScore: inBucket.reduce((sum, p) => sum + p.score, 0) / inBucket.length,
+      positiveRate: inBucket.filter((p) => p.expected).length / inBucket.length,
+    });
+  }
+
+  const brier =
+    pairs.reduce((sum, p) => sum + (p.score / 100 - (p.expected ? 1 : 0)) ** 2, 0) / pairs.length;
+  return { buckets, brier };
+}
+
+/**
+ * パーセンタイル (最近傍法、値がない場合は null)
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index] ?? null;
+}
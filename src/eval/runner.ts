@@ -0,0 +1,344 @@
+import type { Config } from "../config/schema.js";
+import type { ConnpassEvent } from "../connpass/types.js";
+import type { CostSummary } from "../llm/cost.js";
+import { getDefaultModel } from "../llm/factory.js";
+import type { EmbeddingMatcher } from "../matcher/embedding.js";
+import type { LabelledEvent } from "../matcher/feedback.js";
+import { KeywordScorer } from "../matcher/keyword.js";
+import { type LLMAnalysisResult, LLMMatcher } from "../matcher/llm.js";
+import { HeuristicSpeakerDetector } from "../matcher/speaker.js";
+import { createChildLogger } from "../utils/logger.js";
+import type { EvalCase, EvalDataset } from "./dataset.js";
+import {
+  type Calibration,
+  type ClassificationMetrics,
+  calibrate,
+  classify,
+  percentile,
+} from "./metrics.js";
+
+const logger = createChildLogger("eval");
+
+/**
+ * 1イベントの判定結果
+ */
+export interface Prediction {
+  interest?: { match: boolean; score: number; reason?: string | undefined };
+  speaker?: { match: boolean; reason?: string | undefined };
+  /** 1イベントあたりの LLM の応答時間 (バッチの場合は件数で割った値) */
+  latencyMs?: number;
+  /** 判定に失敗した場合のエラー (集計から除く) */
+  error?: string;
+}
+
+/**
+ * 評価する判定方法
+ */
+export interface EvalMatcher {
+  /** 結果の比較に使う名前 (LLM は "llm:<provider>/<model>") */
+  name: string;
+  predict(events: ConnpassEvent[]): Promise<{
+    predictions: Map<number, Prediction>;
+    cost?: CostSummary;
+  }>;
+}
+
+/**
+ * 正解ラベルと一致しなかった判定
+ */
+export interface Disagreement {
+  eventId: number;
+  title: string;
+  kind: "interest" | "speaker";
+  expected: boolean;
+  predicted: boolean;
+  score?: number;
+  reason?: string;
+}
+
+export interface LatencySummary {
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+}
+
+/**
+ * 判定方法ごとの評価結果
+ */
+export interface MatcherEvaluation {
+  name: string;
+  /** 興味・登壇機会の判定の集計 (判定しない方法・ラベルがない場合は null) */
+  interest: ClassificationMetrics | null;
+  speaker: ClassificationMetrics | null;
+  /** 興味スコアの較正 */
+  calibration: Calibration | null;
+  /** LLM の応答時間 (1イベントあたり) */
+  latency: LatencySummary | null;
+  /** LLM の呼び出し回数・トークン数・費用 */
+  cost: CostSummary | null;
+  /** 判定に失敗したイベント数 */
+  failures: number;
+  disagreements: Disagreement[];
+}
+
+/**
+ * 評価データ全体の評価結果 (eval_runs に JSON で保存)
+ */
+export interface EvalReport {
+  dataset: string;
+  datasetHash: string;
+  eventCount: number;
+  matchers: MatcherEvaluation[];
+}
+
+function toLLMPrediction(analysis: LLMAnalysisResult): Prediction {
+  const { decision } = analysis;
+  if (decision?.error) {
+    return { error: decision.error };
+  }
+  return {
+    interest: {
+      match: analysis.interest.is_match,
+      score: analysis.interest.score,
+      reason: analysis.interest.llm_reason,
+    },
+    speaker: {
+      match: analysis.speaker.has_opportunity,
+      reason: analysis.speaker.detected_keywords.join(", "),
+    },
+    ...(decision ? { latencyMs: decision.latencyMs / decision.batchSize } : {}),
+  };
+}
+
+/**
+ * 設定済みの LLM プロバイダごとの判定
+ * プロバイダを比較するためフォールバックせず、費用・回数の上限も適用しない
+ */
+export function createLLMEvalMatchers(config: Config, examples: LabelledEvent[]): EvalMatcher[] {
+  if (!config.llm.enabled) {
+    return [];
+  }
+  return (config.llm.providers ?? [config.llm]).map((entry) => {
+    const matcher = new LLMMatcher(
+      {
+        ...config,
+        llm: {
+          ...config.llm,
+          providers: [entry],
+          max_cost_per_scan: undefined,
+          max_calls_per_scan: undefined,
+        },
+      },
+      { examples },
+    );
+    return {
+      name: `llm:${entry.provider}/${entry.model ?? getDefaultModel(entry.provider)}`,
+      async predict(events) {
+        const { results, cost } = await matcher.analyzeEvents(events);
+        const predictions = new Map<number, Prediction>();
+        for (const [eventId, analysis] of results) {
+          predictions.set(eventId, toLLMPrediction(analysis));
+        }
+        return { predictions, cost };
+      },
+    };
+  });
+}
+
+/**
+ * interests.keywords による判定 (keyword_scoring.match_threshold 以上でマッチ、キーワードがない場合は null)
+ */
+export function createKeywordEvalMatcher(config: Config): EvalMatcher | null {
+  const scorer = new KeywordScorer(config.interests);
+  if (!scorer.enabled) {
+    return null;
+  }
+  const threshold = config.interests.keyword_scoring.match_threshold;
+  return {
+    name: "keyword",
+    predict: async (events) => ({
+      predictions: new Map(
+        events.map((event) => {
+          const match = scorer.score(event);
+          const interest = {
+            match: match.score >= threshold,
+            score: match.score,
+            reason: match.matches.join(", "),
+          };
+          return [event.id, { interest }];
+        }),
+      ),
+    }),
+  };
+}
+
+/**
+ * ルールによる登壇機会の判定
+ */
+export function createSpeakerRulesEvalMatcher(config: Config): EvalMatcher {
+  const detector = new HeuristicSpeakerDetector(config.speaker);
+  return {
+    name: "speaker-rules",
+    predict: async (events) => ({
+      predictions: new Map(
+        events.map((event) => {
+          const speaker = detector.detect(event);
+          return [
+            event.id,
+            {
+              speaker: {
+                match: speaker.has_opportunity,
+                reason: speaker.detected_keywords.join(", "),
+              },
+            },
+          ];
+        }),
+      ),
+    }),
+  };
+}
+
+/**
+ * 埋め込みの類似度による判定 (keyword_scoring.match_threshold 以上でマッチ)
+ */
+export function createEmbeddingEvalMatcher(
+  config: Config,
+  matcher: EmbeddingMatcher,
+  likedEvents: ConnpassEvent[],
+): EvalMatcher {
+  const threshold = config.interests.keyword_scoring.match_threshold;
+  return {
+    name: `embedding:${config.embedding.provider}/${config.embedding.model}`,
+    async predict(events) {
+      const scores = await matcher.scoreEvents(events, likedEvents);
+      const predictions = new Map<number, Prediction>();
+      for (const event of events) {
+        const score = scores.get(event.id);
+        predictions.set(
+          event.id,
+          score === undefined
+            ? { error: "embedding failed" }
+            : { interest: { match: score >= threshold, score } },
+        );
+      }
+      return { predictions };
+    },
+  };
+}
+
+type LabelKind = Disagreement["kind"];
+
+function summarizeLatency(latencies: number[]): LatencySummary | null {
+  if (latencies.length === 0) {
+    return null;
+  }
+  const mean = latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length;
+  return {
+    meanMs: Math.round(mean),
+    p50Ms: Math.round(percentile(latencies, 50) ?? 0),
+    p95Ms: Math.round(percentile(latencies, 95) ?? 0),
+  };
+}
+
+/**
+ * 正解ラベルと判定が一致しなければ Disagreement を返す
+ */
+function findDisagreement(
+  kind: LabelKind,
+  { event, expected }: EvalCase,
+  prediction: Prediction,
+): Disagreement | null {
+  const predicted = prediction[kind];
+  const label = expected[kind];
+  if (!predicted || label === undefined || predicted.match === label) {
+    return null;
+  }
+  return {
+    eventId: event.id,
+    title: event.title,
+    kind,
+    expected: label,
+    predicted: predicted.match,
+    ...(prediction.interest && kind === "interest" ? { score: prediction.interest.score } : {}),
+    ...(predicted.reason ? { reason: predicted.reason } : {}),
+  };
+}
+
+/**
+ * 正解ラベルと判定がどちらもあるイベントで分類を集計
+ */
+function classifyKind(
+  kind: LabelKind,
+  judged: Array<{ evalCase: EvalCase; prediction: Prediction }>,
+): ClassificationMetrics | null {
+  const pairs = judged.flatMap(({ evalCase, prediction }) => {
+    const predicted = prediction[kind];
+    const label = evalCase.expected[kind];
+    return predicted && label !== undefined
+      ? [{ expected: label, predicted: predicted.match }]
+      : [];
+  });
+  return pairs.length > 0 ? classify(pairs) : null;
+}
+
+/**
+ * 正解ラベルと判定結果を比較して集計 (判定に失敗したイベントは failures にのみ数える)
+ */
+function evaluate(
+  name: string,
+  cases: EvalCase[],
+  predictions: Map<number, Prediction>,
+  cost: CostSummary | undefined,
+): MatcherEvaluation {
+  const judged = cases.flatMap((evalCase) => {
+    const prediction = predictions.get(evalCase.event.id);
+    return prediction && !prediction.error ? [{ evalCase, prediction }] : [];
+  });
+
+  const scores = judged.flatMap(({ evalCase, prediction }) =>
+    prediction.interest && evalCase.expected.interest !== undefined
+      ? [{ score: prediction.interest.score, expected: evalCase.expected.interest }]
+      : [],
+  );
+  const latencies = judged.flatMap(({ prediction }) =>
+    prediction.latencyMs !== undefined ? [prediction.latencyMs] : [],
+  );
+  const disagreements = judged.flatMap(({ evalCase, prediction }) =>
+    (["interest", "speaker"] as const)
+      .map((kind) => findDisagreement(kind, evalCase, prediction))
+      .filter((d): d is Disagreement => d !== null),
+  );
+
+  return {
+    name,
+    interest: classifyKind("interest", judged),
+    speaker: classifyKind("speaker", judged),
+    calibration: calibrate(scores),
+    latency: summarizeLatency(latencies),
+    cost: cost ?? null,
+    failures: cases.length - judged.length,
+    disagreements,
+  };
+}
+
+/**
+ * 評価データのすべてのイベントを判定方法ごとに判定して評価
+ */
+export async function runEvaluation(
+  dataset: EvalDataset,
+  matchers: EvalMatcher[],
+): Promise<EvalReport> {
+  const events = dataset.cases.map((c) => c.event);
+  const evaluations: MatcherEvaluation[] = [];
+  for (const matcher of matchers) {
+    logger.info({ matcher: matcher.name, events: events.length }, "Evaluating matcher");
+    const { predictions, cost } = await matcher.predict(events);
+    evaluations.push(evaluate(matcher.name, dataset.cases, predictions, cost));
+  }
+  return {
+    dataset: dataset.path,
+    datasetHash: dataset.hash,
+    eventCount: dataset.cases.length,
+    matchers: evaluations,
+  };
+}
@@ -1,15 +1,64 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
+import type Database from "better-sqlite3";
 import { program } from "commander";
+import { format } from "date-fns";
 import schedule from "node-schedule";
 import { GoogleCalendarClient } from "./calendar/google.js";
 import { loadConfig } from "./config/loader.js";
 import type { Config } from "./config/schema.js";
-import { ConnpassClient } from "./connpass/client.js";
-import type { EnrichedEvent } from "./connpass/types.js";
-import { EventRepository } from "./db/events.js";
-import { initializeDatabase } from "./db/schema.js";
-import { LLMMatcher } from "./matcher/llm.js";
+import { detectCancellationMarker } from "./connpass/cancellation.js";
+import { detectCapacityAlert, resolveCapacityMarker } from "./connpass/capacity.js";
+import { formatChanges } from "./connpass/changes.js";
+import { ConnpassClient, type EventFetchResult, type FetchFailure } from "./connpass/client.js";
+import type {
+  Cancellation,
+  CapacityAlert,
+  ConnpassEvent,
+  EnrichedEvent,
+  EventCategory,
+  InterestMatch,
+  SpeakerOpportunity,
+} from "./connpass/types.js";
+import { AnalysisCacheRepository } from "./db/analysis-cache.js";
+import { CapacityRepository } from "./db/capacity.js";
+import { type ScanCursorRecord, ScanCursorRepository } from "./db/cursors.js";
+import { EmbeddingRepository } from "./db/embeddings.js";
+import { type EvalRunRecord, EvalRunRepository } from "./db/evals.js";
+import { EventRepository, type ProcessedEventRecord } from "./db/events.js";
+import { FeedbackRepository } from "./db/feedback.js";
+import { type LLMDecisionRecord, LLMDecisionRepository } from "./db/llm-decisions.js";
+import { getMigrationStatus, runMigrations } from "./db/migrate.js";
+import { type ScanRunRecord, ScanRunRepository, type ScanTrigger } from "./db/runs.js";
+import { initializeDatabase, openDatabase } from "./db/schema.js";
+import {
+  type EventSearchOptions,
+  EventSearchRepository,
+  type EventSearchResult,
+} from "./db/search.js";
+import { loadDataset } from "./eval/dataset.js";
+import { type EvalDiff, type MetricChange, diffReports } from "./eval/diff.js";
+import type { Calibration, ClassificationMetrics } from "./eval/metrics.js";
+import {
+  type Disagreement,
+  type EvalMatcher,
+  type EvalReport,
+  type MatcherEvaluation,
+  createEmbeddingEvalMatcher,
+  createKeywordEvalMatcher,
+  createLLMEvalMatchers,
+  createSpeakerRulesEvalMatcher,
+  runEvaluation,
+} from "./eval/runner.js";
+import type { CostSummary } from "./llm/cost.js";
+import { createEmbeddingProvider } from "./llm/embedding.js";
+import { EmbeddingMatcher } from "./matcher/embedding.js";
+import { type FeedbackLabel, FeedbackPriors, type LabelledEvent } from "./matcher/feedback.js";
+import { isBlocked, isFollowed } from "./matcher/follow.js";
+import { type KeywordMatch, KeywordScorer } from "./matcher/keyword.js";
+import { type LLMAnalysisResult, LLMMatcher } from "./matcher/llm.js";
+import { HeuristicSpeakerDetector, disagrees } from "./matcher/speaker.js";
+import { Cassette } from "./utils/cassette.js";
 import { logger } from "./utils/logger.js";
 
 const APP_DIR = ".connpass-watcher";
@@ -19,14 +68,54 @@ interface ScanOptions {
   config?: string;
   dryRun?: boolean;
   json?: boolean;
+  jsonV2?: boolean;
+  full?: boolean;
+  record?: string;
+  replay?: string;
+  /** 実行履歴に記録する起動元 */
+  trigger?: ScanTrigger;
 }
 
 interface ScanResult {
   event: EnrichedEvent;
-  action: "registered" | "updated" | "skipped" | "already_processed" | "excluded" | "filtered" | "no_match";
+  action:
+    | "registered"
+    | "updated"
+    | "skipped"
+    | "already_processed"
+    | "excluded"
+    | "filtered"
+    | "no_match"
+    | "cancelled"
+    | "analysis_failed"
+    | "deferred";
   calendarEventId?: string;
   colorId?: string;
-  category?: "popular" | "speaker" | "interest";
+  category?: EventCategory;
+  /** 中止・延期時のカレンダーの扱い (deleted: 削除, renamed: 接頭辞を付与) */
+  retraction?: "deleted" | "renamed";
+  /** 分析に応答した LLM (provider/model、LLM を呼び出した場合のみ) */
+  llmProvider?: string;
+  /** ルールによる登壇機会の判定 (speaker.cross_check で LLM の判定と食い違った場合のみ) */
+  speakerDisagreement?: SpeakerOpportunity;
+}
+
+interface ScanReport {
+  results: ScanResult[];
+  /** 取得方式 (full: 日付スイープ, incremental: 差分取得) */
+  fetchMode: "full" | "incremental";
+  /** connpass への取得対象の数 (日付・監視クエリ) */
+  fetchTargetCount: number;
+  /** リトライしても取得できなかった対象 */
+  fetchFailures: FetchFailure[];
+  /** 定員状況のアラートが発生したイベント */
+  capacityAlerts: EnrichedEvent[];
+  /** LLM の呼び出し回数 */
+  llmCalls: number;
+  /** LLM のトークン数・費用 */
+  llmCost: CostSummary;
+  /** カレンダーへの書き込み回数 (登録・更新・中止の反映) */
+  calendarWrites: number;
 }
 
 /**
@@ -38,278 +127,1846 @@ function shouldExclude(event: EnrichedEvent, excludeKeywords: string[]): boolean
 }
 
 /**
- * イベントをスキャンして処理
+ * 差分取得の起点となる更新日時を決定
+ * 差分取得が無効・--full 指定・カーソルなし・全件取得から一定時間経過のいずれかなら null (全件取得)
+ */
+function resolveUpdatedSince(
+  config: Config,
+  cursor: ScanCursorRecord | null,
+  options: ScanOptions,
+): string | null {
+  const { enabled, full_scan_interval_hours } = config.connpass.incremental;
+  if (!enabled || options.full || !cursor?.last_updated_at || !cursor.last_full_scan_at) {
+    return null;
+  }
+
+  const elapsedHours =
+    (Date.now() - new Date(cursor.last_full_scan_at).getTime()) / (60 * 60 * 1000);
+  if (elapsedHours >= full_scan_interval_hours) {
+    logger.info({ lastFullScanAt: cursor.last_full_scan_at }, "Full scan interval elapsed");
+    return null;
+  }
+
+  return cursor.last_updated_at;
+}
+
+/**
+ * --record / --replay 指定からカセットを作成
+ */
+function createCassette(options: ScanOptions): Cassette | null {
+  if (options.record && options.replay) {
+    throw new Error("--record and --replay cannot be used together");
+  }
+  if (options.record) {
+    return new Cassette("record", options.record);
+  }
+  if (options.replay) {
+    return new Cassette("replay", options.replay);
+  }
+  return null;
+}
+
+/**
+ * 中止・延期されたイベントをカレンダーから削除、またはタイトルに接頭辞を付与
+ * @returns 失敗した場合は null
+ */
+async function retractCalendarEvent(
+  calendarEventId: string,
+  kind: Cancellation["kind"],
+  config: Config,
+  calendarClient: GoogleCalendarClient,
+): Promise<"deleted" | "renamed" | null> {
+  const { action, cancelled_prefix, postponed_prefix } = config.cancellation;
+  try {
+    if (action === "delete") {
+      return (await calendarClient.deleteEvent(calendarEventId)) ? "deleted" : null;
+    }
+    const prefix = kind === "postponed" ? postponed_prefix : cancelled_prefix;
+    return (await calendarClient.prefixEventSummary(calendarEventId, prefix)) ? "renamed" : null;
+  } catch (error) {
+    logger.error({ error, calendarEventId }, "Failed to retract calendar event");
+    return null;
+  }
+}
+
+/**
+ * 中止・延期されたイベントのカレンダー登録を取り下げ、processed_events に記録
+ * カレンダー操作に失敗した場合は次回スキャンで再試行するため記録しない
+ */
+async function retractEvent(
+  event: EnrichedEvent & { cancellation: Cancellation },
+  calendarEventId: string | null,
+  context: {
+    config: Config;
+    calendarClient: GoogleCalendarClient;
+    eventRepo: EventRepository;
+    dryRun: boolean;
+  },
+): Promise<ScanResult> {
+  const { config, calendarClient, eventRepo, dryRun } = context;
+  const { kind, reason } = event.cancellation;
+  logger.info({ eventId: event.id, title: event.title, kind, reason }, "Event cancelled");
+
+  const result: ScanResult = { event, action: "cancelled" };
+  if (dryRun) {
+    return result;
+  }
+
+  if (calendarEventId && config.google_calendar.enabled) {
+    const retraction = await retractCalendarEvent(calendarEventId, kind, config, calendarClient);
+    if (!retraction) {
+      return result;
+    }
+    result.retraction = retraction;
+    if (retraction === "renamed") {
+      result.calendarEventId = calendarEventId;
+    }
+  }
+
+  const remainingCalendarEventId = result.retraction === "deleted" ? null : calendarEventId;
+  eventRepo.markCancelled(event.id, kind, remainingCalendarEventId);
+  return result;
+}
+
+/**
+ * カレンダー登録済みで、取得できた日付の検索結果から消えたイベントを取得
+ * 開催日の変更で検索期間外に移っただけの場合もあるため、イベントIDで再取得して存在しないものに限る
+ */
+async function findRemovedEvents(
+  fetchResult: EventFetchResult,
+  connpassClient: ConnpassClient,
+  eventRepo: EventRepository,
+): Promise<Array<{ event: EnrichedEvent; calendarEventId: string }>> {
+  const completeDates = new Set(fetchResult.completeDates);
+  const candidates = eventRepo
+    .getActiveCalendarEvents()
+    .filter(
+      (r) =>
+        !fetchResult.fetchedEventIds.has(r.eventId) &&
+        completeDates.has(format(new Date(r.startedAt), "yyyyMMdd")),
+    );
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  let existingIds: Set<number>;
+  try {
+    const existing = await connpassClient.getEventsByIds(candidates.map((c) => c.eventId));
+    existingIds = new Set(existing.map((e) => e.id));
+  } catch (error) {
+    logger.warn({ error, count: candidates.length }, "Failed to confirm removed events, skipping");
+    return [];
+  }
+
+  const removed: Array<{ event: EnrichedEvent; calendarEventId: string }> = [];
+  for (const candidate of candidates) {
+    if (existingIds.has(candidate.eventId)) {
+      continue;
+    }
+    const event = eventRepo.getStoredEvent(candidate.eventId);
+    if (event) {
+      removed.push({ event, calendarEventId: candidate.calendarEventId });
+    }
+  }
+  return removed;
+}
+
+/**
+ * イベントの判定・カレンダー登録で共通に使う依存と集計
+ */
+interface ProcessContext {
+  config: Config;
+  dryRun: boolean;
+  eventRepo: EventRepository;
+  calendarClient: GoogleCalendarClient;
+  keywordScorer: KeywordScorer;
+  speakerDetector: HeuristicSpeakerDetector;
+  feedbackPriors: FeedbackPriors;
+  /** feedback --dislike で低評価にしたイベント (再処理せず除外) */
+  dislikedEventIds: Set<number>;
+  stats: {
+    /** カレンダーへの書き込み回数 (登録・更新・空席アラートの反映) */
+    calendarWrites: number;
+  };
+}
+
+/**
+ * 事前の判定を通過し、マッチング判定に進むイベント
+ */
+interface MatchCandidate {
+  event: EnrichedEvent;
+  existingRecord: ProcessedEventRecord | null;
+  followed: boolean;
+  isPopular: boolean;
+  isOutOfRange: boolean;
+  /** interests.keywords によるスコア */
+  keywordMatch: KeywordMatch;
+  /** キーワードがマッチせず参加者も少ないため LLM 判定を省略する */
+  skipLLM: boolean;
+  /** 埋め込みベクトルの類似度によるスコア (embedding 有効時) */
+  embeddingScore?: number;
+}
+
+/**
+ * 中止・延期、処理済み、除外キーワード・ブロック・距離フィルタを判定
+ * @returns 判定が確定した場合は ScanResult、マッチング判定に進む場合は MatchCandidate
+ */
+async function triageEvent(
+  event: EnrichedEvent,
+  context: ProcessContext,
+): Promise<ScanResult | MatchCandidate> {
+  const { config, eventRepo } = context;
+
+  // 処理済みチェック & 更新検知
+  // 中止・延期として記録済みのイベントが表記なしで再び現れた場合、LLM 分析に失敗した場合も再処理する
+  const existingRecord = eventRepo.getProcessedEvent(event.id);
+  const needsReprocessing =
+    existingRecord !== null &&
+    (existingRecord.status !== null || eventRepo.needsReprocessing(event.id, event.updated_at));
+
+  // 中止・延期の表記チェック
+  // 未処理のイベントは取り下げるものがないため記録せず除外する
+  const cancellation = config.cancellation.enabled ? detectCancellationMarker(event) : null;
+  if (cancellation) {
+    if (!existingRecord) {
+      logger.debug({ eventId: event.id, title: event.title }, "Excluded as cancelled");
+      return { event, action: "excluded" };
+    }
+    if (existingRecord.status === cancellation.kind) {
+      return { event, action: "already_processed" };
+    }
+    return retractEvent(
+      { ...event, cancellation },
+      existingRecord.calendar_event_id,
+      context,
+    );
+  }
+
+  if (existingRecord && !needsReprocessing) {
+    // 再処理しないイベントも定員状況の表示はカレンダーのタイトル・説明文に反映
+    await patchCapacityMarker(event, existingRecord, context);
+    return { event, action: "already_processed" };
+  }
+
+  if (needsReprocessing) {
+    logger.info({ eventId: event.id, title: event.title }, "Event updated, reprocessing");
+  }
+
+  const followed = isFollowed(event, config.interests);
+  const filtered = filterEvent(event, config, {
+    followed,
+    dislikedEventIds: context.dislikedEventIds,
+  });
+  if (filtered) {
+    return { event, action: filtered };
+  }
+
+  // フォロー中のグループ/主催者・人気イベント判定 (50人以上)
+  const keywordMatch = context.keywordScorer.score(event);
+  return {
+    event,
+    existingRecord,
+    followed,
+    isPopular: event.accepted >= config.interests.min_participants,
+    isOutOfRange: event.geo !== undefined && !event.geo.in_range,
+    keywordMatch,
+    skipLLM: context.keywordScorer.shouldSkipLLM(event, keywordMatch),
+  };
+}
+
+/**
+ * 除外キーワード・ブロック中のグループ/主催者・低評価・拠点からの距離で除外するか判定
+ * フォロー中のグループ/主催者のイベントはブロックされていない限り除外しない
+ */
+function filterEvent(
+  event: EnrichedEvent,
+  config: Config,
+  { followed, dislikedEventIds }: { followed: boolean; dislikedEventIds: Set<number> },
+): "excluded" | "filtered" | null {
+  if (isBlocked(event, config.interests)) {
+    logger.debug({ eventId: event.id, title: event.title }, "Excluded by block list");
+    return "excluded";
+  }
+  if (followed) {
+    return null;
+  }
+  if (dislikedEventIds.has(event.id)) {
+    logger.debug({ eventId: event.id, title: event.title }, "Excluded by feedback");
+    return "excluded";
+  }
+  if (shouldExclude(event, config.interests.exclude_keywords)) {
+    logger.debug({ eventId: event.id, title: event.title }, "Excluded by keyword");
+    return "excluded";
+  }
+
+  // 拠点の半径外のオフラインイベントを除外
+  const isOutOfRange = event.geo !== undefined && !event.geo.in_range;
+  if (isOutOfRange && config.geo.out_of_range === "exclude") {
+    logger.debug(
+      { eventId: event.id, title: event.title, distanceKm: event.geo?.distance_km },
+      "Filtered by distance",
+    );
+    return "filtered";
+  }
+  return null;
+}
+
+/**
+ * 定員状況の表示を登録済みのカレンダーイベントのタイトル・説明文に反映
+ * 新たなアラートがあった場合と、表示を外す場合のみ更新する
+ * 中止・延期として記録済みのイベントはタイトルの接頭辞を消さないよう更新しない
+ */
+async function patchCapacityMarker(
+  event: EnrichedEvent,
+  record: ProcessedEventRecord,
+  context: ProcessContext,
+): Promise<void> {
+  const { config, dryRun, calendarClient, eventRepo, stats } = context;
+  const marker = event.capacity_marker ?? null;
+  const changed = event.capacity_alert !== undefined || marker !== record.capacity_marker;
+  const retracted = record.status === "cancelled" || record.status === "postponed";
+  if (
+    !changed ||
+    retracted ||
+    !record.calendar_event_id ||
+    dryRun ||
+    !config.google_calendar.enabled
+  ) {
+    return;
+  }
+  try {
+    if (await calendarClient.patchEventDetails(record.calendar_event_id, event)) {
+      eventRepo.setCapacityMarker(event.id, marker);
+      stats.calendarWrites++;
+    }
+  } catch (error) {
+    logger.error({ error, eventId: event.id }, "Failed to mark capacity alert in calendar");
+  }
+}
+
+/**
+ * カレンダーに登録または更新 (upsert: 既存イベントがあれば更新)
+ */
+async function registerToCalendar(
+  event: EnrichedEvent,
+  colorId: string | undefined,
+  existingCalendarEventId: string | undefined,
+  context: ProcessContext,
+): Promise<{
+  calendarEventId: string | undefined;
+  calendarAction: "created" | "updated" | "skipped";
+}> {
+  const { config, dryRun, calendarClient, stats } = context;
+  const skipped = { calendarEventId: existingCalendarEventId, calendarAction: "skipped" } as const;
+  if (dryRun || !config.google_calendar.enabled) {
+    return skipped;
+  }
+
+  try {
+    const isAuth = await calendarClient.isAuthenticated();
+    if (!isAuth) {
+      return skipped;
+    }
+    // upsertEvent: 既存イベントがあれば更新、なければ新規作成
+    const upsertResult = await calendarClient.upsertEvent(event, colorId ? { colorId } : undefined);
+    const calendarEventId = upsertResult.calendarEventId ?? undefined;
+    if (upsertResult.action !== "skipped") {
+      stats.calendarWrites++;
+    }
+
+    if (upsertResult.action === "created") {
+      logger.info({ eventId: event.id, calendarEventId }, "Calendar event created");
+    } else if (upsertResult.action === "updated") {
+      logger.info({ eventId: event.id, calendarEventId }, "Calendar event updated");
+    }
+    return { calendarEventId, calendarAction: upsertResult.action };
+  } catch (error) {
+    logger.error({ error, eventId: event.id }, "Failed to register/update calendar");
+    return skipped;
+  }
+}
+
+/**
+ * 登壇機会を判定
+ * LLM 無効時はルールで判定し、speaker.cross_check の場合は LLM の判定と食い違えばルールの判定も返す
+ */
+function resolveSpeaker(
+  event: EnrichedEvent,
+  analysis: LLMAnalysisResult,
+  context: ProcessContext,
+): { speaker: SpeakerOpportunity; disagreement?: SpeakerOpportunity } {
+  const { config, speakerDetector } = context;
+  if (!config.llm.enabled) {
+    return { speaker: speakerDetector.detect(event) };
+  }
+  if (!config.speaker.cross_check) {
+    return { speaker: analysis.speaker };
+  }
+
+  const heuristic = speakerDetector.detect(event);
+  if (!disagrees(analysis.speaker, heuristic)) {
+    return { speaker: analysis.speaker };
+  }
+  logger.info(
+    {
+      eventId: event.id,
+      title: event.title,
+      llm: analysis.speaker.has_opportunity,
+      heuristic: heuristic.detected_keywords,
+    },
+    "Speaker opportunity verdicts disagree",
+  );
+  return { speaker: analysis.speaker, disagreement: heuristic };
+}
+
+/**
+ * フォロー・人気・キーワード・LLM の判定結果をイベントに反映
+ * @returns LLM 分析に失敗した場合は null
+ */
+function applyMatch(
+  candidate: MatchCandidate,
+  analysis: LLMAnalysisResult | undefined,
+  context: ProcessContext,
+): {
+  isInterested: boolean;
+  hasSpeakerOpportunity: boolean;
+  speakerDisagreement?: SpeakerOpportunity;
+} | null {
+  const { event, followed, isPopular, keywordMatch } = candidate;
+
+  if (followed) {
+    // フォロー中のイベントはテーマに関係なくLLM判定なしで登録
+    event.interest_match = {
+      is_match: true,
+      score: 100,
+      keyword_matches: [
+        `フォロー(${event.group?.title ?? event.owner_nickname})`,
+        ...keywordMatch.matches,
+      ],
+    };
+    logger.info({ eventId: event.id, title: event.title }, "Followed event");
+    return { isInterested: true, hasSpeakerOpportunity: false };
+  }
+
+  if (isPopular) {
+    // 人気イベントはLLM判定なしで興味ありとみなす
+    event.interest_match = {
+      is_match: true,
+      score: 80,
+      keyword_matches: [`人気(${event.accepted}人)`, ...keywordMatch.matches],
+    };
+    logger.info(
+      { eventId: event.id, title: event.title, accepted: event.accepted },
+      "Popular event",
+    );
+    return { isInterested: true, hasSpeakerOpportunity: false };
+  }
+
+  if (candidate.skipLLM) {
+    // 登壇機会はルールで判定
+    event.interest_match = { is_match: false, score: keywordMatch.score, keyword_matches: [] };
+    event.speaker_opportunity = context.speakerDetector.detect(event);
+    logger.debug({ eventId: event.id, title: event.title }, "No keyword hits, LLM skipped");
+    return {
+      isInterested: false,
+      hasSpeakerOpportunity: event.speaker_opportunity.has_opportunity,
+    };
+  }
+
+  if (!analysis || analysis.decision?.error) {
+    return null;
+  }
+  const { speaker, disagreement } = resolveSpeaker(event, analysis, context);
+  event.interest_match = context.keywordScorer.combine(
+    analysis.interest,
+    keywordMatch,
+    context.feedbackPriors.adjustment(event, keywordMatch),
+  );
+  event.speaker_opportunity = speaker;
+  return {
+    isInterested: event.interest_match.is_match,
+    hasSpeakerOpportunity: speaker.has_opportunity,
+    ...(disagreement ? { speakerDisagreement: disagreement } : {}),
+  };
+}
+
+/**
+ * カテゴリを決定 (優先順: フォロー > 登壇 > 人気 > 興味)
+ */
+function getCategory(candidate: MatchCandidate, hasSpeakerOpportunity: boolean): EventCategory {
+  if (candidate.followed) {
+    return "followed";
+  }
+  if (hasSpeakerOpportunity) {
+    return "speaker";
+  }
+  return candidate.isPopular ? "popular" : "interest";
+}
+
+/**
+ * 興味の判定結果に埋め込みの類似度スコアを併記
+ */
+function attachEmbeddingScore(candidate: MatchCandidate): void {
+  const { event, embeddingScore } = candidate;
+  if (event.interest_match && embeddingScore !== undefined) {
+    event.interest_match.embedding_score = embeddingScore;
+  }
+}
+
+/**
+ * 判定に応答した LLM と、登壇機会の判定の食い違いを結果に含める
+ */
+function toResultDetails(
+  analysis: LLMAnalysisResult | undefined,
+  speakerDisagreement?: SpeakerOpportunity,
+): Pick<ScanResult, "llmProvider" | "speakerDisagreement"> {
+  const decision = analysis?.decision;
+  return {
+    ...(decision ? { llmProvider: `${decision.provider}/${decision.model}` } : {}),
+    ...(speakerDisagreement ? { speakerDisagreement } : {}),
+  };
+}
+
+/**
+ * 拠点の半径外のオフラインイベント (out_of_range: downrank) のスコアを下げ、
+ * 下げたスコアが match_threshold 未満なら興味なしとする (フォロー中のイベントは対象外)
+ * @returns 補正後の興味ありの判定
+ */
+function applyDistancePenalty(
+  candidate: MatchCandidate,
+  isInterested: boolean,
+  config: Config,
+): boolean {
+  const { event, followed, isOutOfRange } = candidate;
+  if (!isOutOfRange || followed || !event.interest_match) {
+    return isInterested;
+  }
+  const score = Math.max(0, event.interest_match.score - config.geo.downrank_penalty);
+  const isMatch = isInterested && score >= config.interests.keyword_scoring.match_threshold;
+  event.interest_match = { ...event.interest_match, is_match: isMatch, score };
+  return isMatch;
+}
+
+/**
+ * カレンダーのタイトルに表示中の定員状況 (カレンダーを更新しなかった場合は前回の表示のまま)
+ */
+function resolveStoredCapacityMarker(
+  event: EnrichedEvent,
+  existingRecord: ProcessedEventRecord | null,
+  calendarAction: "created" | "updated" | "skipped",
+): CapacityAlert["type"] | null {
+  if (calendarAction === "skipped") {
+    return existingRecord?.capacity_marker ?? null;
+  }
+  return event.capacity_marker ?? null;
+}
+
+/**
+ * フォロー・人気・LLM の判定結果を反映し、マッチしたイベントをカレンダーに登録
+ * @param analysis LLM の分析結果 (フォロー中・人気イベントは undefined)
+ */
+async function matchEvent(
+  candidate: MatchCandidate,
+  analysis: LLMAnalysisResult | undefined,
+  context: ProcessContext,
+): Promise<ScanResult> {
+  const { config, eventRepo, calendarClient } = context;
+  const { event, existingRecord, followed, isPopular } = candidate;
+
+  const match = applyMatch(candidate, analysis, context);
+  if (!match) {
+    // 判定できなかったイベントは処理済みにせず次回のスキャンで再分析
+    eventRepo.markAnalysisFailed(event.id, event.updated_at);
+    return { event, action: "analysis_failed", ...toResultDetails(analysis) };
+  }
+  const { hasSpeakerOpportunity } = match;
+  const isInterested = applyDistancePenalty(candidate, match.isInterested, config);
+  const details = toResultDetails(analysis, match.speakerDisagreement);
+  attachEmbeddingScore(candidate);
+
+  // マッチしない場合はスキップ
+  if (!isInterested && !hasSpeakerOpportunity) {
+    eventRepo.markProcessed({
+      eventId: event.id,
+      hasSpeakerOpportunity: false,
+      hasInterestMatch: false,
+      interestScore: event.interest_match?.score ?? 0,
+      connpassUpdatedAt: event.updated_at,
+      capacityMarker: existingRecord?.capacity_marker,
+    });
+    return { event, action: "no_match", ...details };
+  }
+
+  // カテゴリと色の決定
+  const category = getCategory(candidate, hasSpeakerOpportunity);
+
+  const colorId = calendarClient.getColorId({
+    hasSpeakerOpportunity,
+    isPopular,
+    isFollowed: followed,
+    venueType: event.venue.type,
+  });
+
+  const { calendarEventId, calendarAction } = await registerToCalendar(
+    event,
+    colorId,
+    existingRecord?.calendar_event_id ?? undefined,
+    context,
+  );
+
+  // 処理済みとしてマーク
+  eventRepo.markProcessed({
+    eventId: event.id,
+    category,
+    hasSpeakerOpportunity,
+    hasInterestMatch: isInterested,
+    interestScore: event.interest_match?.score ?? 0,
+    connpassUpdatedAt: event.updated_at,
+    capacityMarker: resolveStoredCapacityMarker(event, existingRecord, calendarAction),
+    ...(calendarEventId ? { calendarEventId } : {}),
+  });
+
+  // アクションを決定
+  let action: ScanResult["action"];
+  if (calendarAction === "updated") {
+    action = "updated";
+  } else if (calendarAction === "created") {
+    action = "registered";
+  } else {
+    action = "skipped";
+  }
+
+  const result: ScanResult = {
+    event,
+    action,
+    category,
+    ...details,
+  };
+  if (colorId) {
+    result.colorId = colorId;
+  }
+  if (calendarEventId) {
+    result.calendarEventId = calendarEventId;
+  }
+  return result;
+}
+
+/**
+ * イベントをスキャンして処理
+ */
+async function scanEvents(config: Config, options: ScanOptions): Promise<ScanReport> {
+  // カセット (記録・再生) 使用時は一時DBを使った dry-run とし、毎回すべてのイベントを分析する
+  const cassette = createCassette(options);
+  const dryRun = options.dryRun || cassette !== null;
+
+  // DB初期化
+  const dbPath = cassette ? ":memory:" : join(homedir(), APP_DIR, DB_FILE);
+  const db = initializeDatabase(dbPath);
+
+  // 実行履歴を記録 (失敗した場合もエラーを記録して再送出)
+  const runRepo = new ScanRunRepository(db);
+  const runId = runRepo.start({ trigger: options.trigger ?? "cli", dryRun });
+  try {
+    const report = await processEvents(config, options, { db, cassette, dryRun });
+    runRepo.finish(runId, {
+      fetchMode: report.fetchMode,
+      llmCalls: report.llmCalls,
+      llmInputTokens: report.llmCost.inputTokens,
+      llmOutputTokens: report.llmCost.outputTokens,
+      llmCostUsd: report.llmCost.costUsd,
+      calendarWrites: report.calendarWrites,
+      fetchFailures: report.fetchFailures,
+      events: report.results.map((r) => ({
+        eventId: r.event.id,
+        title: r.event.title,
+        action: r.action,
+        category: r.category ?? null,
+        interestScore: r.event.interest_match?.score ?? null,
+      })),
+    });
+    return report;
+  } catch (error) {
+    runRepo.fail(runId, error);
+    throw error;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 評価済みのイベントを新しい順に取得 (イベント情報が保存されていないものは除く)
+ */
+function loadLabelledEvents(
+  feedbackRepo: FeedbackRepository,
+  eventRepo: EventRepository,
+): LabelledEvent[] {
+  return feedbackRepo.list().flatMap((record) => {
+    const event = eventRepo.getStoredEvent(record.event_id);
+    return event ? [{ label: record.label, note: record.note, event }] : [];
+  });
+}
+
+/**
+ * embedding.liked_events のイベントを取得 (保存済みのイベントを優先し、ないものは connpass から取得)
+ */
+async function loadLikedEvents(
+  eventIds: number[],
+  connpassClient: ConnpassClient,
+  eventRepo: EventRepository,
+): Promise<ConnpassEvent[]> {
+  const stored = eventIds
+    .map((id) => eventRepo.getStoredEvent(id))
+    .filter((event): event is EnrichedEvent => event !== null);
+  const storedIds = new Set(stored.map((event) => event.id));
+  const missing = eventIds.filter((id) => !storedIds.has(id));
+  if (missing.length === 0) {
+    return stored;
+  }
+
+  try {
+    return [...stored, ...(await connpassClient.getEventsByIds(missing))];
+  } catch (error) {
+    logger.warn({ error, count: missing.length }, "Failed to fetch liked events, skipping");
+    return stored;
+  }
+}
+
+/**
+ * 設定の埋め込みサーバーと、ベクトルを DB に保存する EmbeddingMatcher を作成
+ */
+function createEmbeddingMatcher(config: Config, db: Database.Database): EmbeddingMatcher {
+  const { embedding } = config;
+  const provider = createEmbeddingProvider({
+    provider: embedding.provider,
+    model: embedding.model,
+    baseUrl: embedding.base_url,
+    apiKey: embedding.api_key,
+  });
+  return new EmbeddingMatcher(config, provider, new EmbeddingRepository(db));
+}
+
+/**
+ * 埋め込みベクトルの類似度スコアを計算して候補に設定
+ * 埋め込みはカセットに記録しないため、カセット使用時は計算しない
+ */
+async function applyEmbeddingScores(
+  candidates: MatchCandidate[],
+  config: Config,
+  context: {
+    db: Database.Database;
+    cassette: Cassette | null;
+    connpassClient: ConnpassClient;
+    eventRepo: EventRepository;
+  },
+): Promise<void> {
+  const { embedding } = config;
+  if (!embedding.enabled || candidates.length === 0) {
+    return;
+  }
+  if (context.cassette) {
+    logger.info("Embedding score is skipped while using a cassette");
+    return;
+  }
+
+  const matcher = createEmbeddingMatcher(config, context.db);
+  const likedEvents = await loadLikedEvents(
+    embedding.liked_events,
+    context.connpassClient,
+    context.eventRepo,
+  );
+  const scores = await matcher.scoreEvents(
+    candidates.map((c) => c.event),
+    likedEvents,
+  );
+  for (const candidate of candidates) {
+    const score = scores.get(candidate.event.id);
+    if (score !== undefined) {
+      candidate.embeddingScore = score;
+    }
+  }
+}
+
+/**
+ * connpass からイベントを取得し、判定・カレンダー登録を行う
+ */
+async function processEvents(
+  config: Config,
+  options: ScanOptions,
+  context: { db: Database.Database; cassette: Cassette | null; dryRun: boolean },
+): Promise<ScanReport> {
+  const { db, cassette, dryRun } = context;
+  const results: ScanResult[] = [];
+
+  const eventRepo = new EventRepository(db);
+  const cursorRepo = new ScanCursorRepository(db);
+  const capacityRepo = new CapacityRepository(db);
+  const labelled = loadLabelledEvents(new FeedbackRepository(db), eventRepo);
+
+  // クライアント初期化
+  const connpassClient = new ConnpassClient(config, {
+    cassette,
+    ...(cassette?.mode === "replay" ? { now: () => cassette.recordedAt } : {}),
+  });
+  const llmMatcher = new LLMMatcher(config, {
+    cassette,
+    cache: new AnalysisCacheRepository(db),
+    recorder: new LLMDecisionRepository(db),
+    examples: labelled.slice(0, config.feedback.few_shot_examples),
+  });
+  const calendarClient = new GoogleCalendarClient(config);
+
+  // カレンダー認証チェック (dry-run以外)
+  if (!dryRun && config.google_calendar.enabled) {
+    const isAuth = await calendarClient.isAuthenticated();
+    if (!isAuth) {
+      logger.warn("Google Calendar not authenticated. Run 'connpass-watcher auth' first.");
+    }
+  }
+
+  // connpassからイベント取得
+  logger.info("Fetching events from connpass...");
+  const cursorKey = connpassClient.getCursorKey();
+  const cursor = cursorRepo.get(cursorKey);
+  const fetchResult = await connpassClient.getEvents({
+    updatedSince: resolveUpdatedSince(config, cursor, options),
+  });
+  const { events } = fetchResult;
+  logger.info({ count: events.length, mode: fetchResult.mode }, "Events fetched");
+
+  // イベントを保存し、前回保存時からの変更を記録
+  const changesById = eventRepo.saveEvents(events);
+  for (const event of events) {
+    const changes = changesById.get(event.id);
+    if (changes) {
+      event.changes = changes;
+    }
+  }
+
+  // 定員状況を記録し、前回スキャンからの変化を検知
+  // dry-run では記録しない (記録すると次回のスキャンで変化を検知できずアラートが出ない)
+  const previousCapacity = dryRun
+    ? capacityRepo.getLatestAll(events)
+    : capacityRepo.recordAll(events);
+  const capacityAlerts: EnrichedEvent[] = [];
+  if (config.alerts.enabled) {
+    for (const event of events) {
+      // カレンダー登録済み・マッチ済み・監視クエリにマッチしたイベントのみ対象
+      const processed = eventRepo.getProcessedEvent(event.id);
+      const isTracked =
+        event.matched_watches.length > 0 ||
+        (processed !== null &&
+          (processed.calendar_event_id !== null ||
+            processed.has_interest_match === 1 ||
+            processed.has_speaker_opportunity === 1));
+      if (!isTracked) {
+        continue;
+      }
+
+      const alert = detectCapacityAlert(
+        event,
+        previousCapacity.get(event.id) ?? null,
+        config.alerts.fill_rate_threshold,
+      );
+      if (alert) {
+        event.capacity_alert = alert;
+        capacityAlerts.push(event);
+        logger.info({ eventId: event.id, title: event.title, alert }, "Capacity alert");
+      }
+      const marker = resolveCapacityMarker(
+        event,
+        alert,
+        processed?.capacity_marker ?? null,
+        config.alerts.fill_rate_threshold,
+      );
+      if (marker) {
+        event.capacity_marker = marker;
+      }
+    }
+  }
+
+  const keywordScorer = new KeywordScorer(config.interests);
+  const processContext: ProcessContext = {
+    config,
+    dryRun,
+    eventRepo,
+    calendarClient,
+    keywordScorer,
+    speakerDetector: new HeuristicSpeakerDetector(config.speaker),
+    feedbackPriors: new FeedbackPriors(labelled, keywordScorer, config.feedback),
+    dislikedEventIds: new Set(labelled.filter((l) => l.label === "dislike").map((l) => l.event.id)),
+    stats: { calendarWrites: 0 },
+  };
+
+  // 1. 中止・延期、処理済み、除外・距離フィルタを判定
+  const candidates: MatchCandidate[] = [];
+  for (const event of events) {
+    // event は既に EnrichedEvent で is_online, is_tokyo, venue が設定済み
+    const outcome = await triageEvent(event, processContext);
+    if ("action" in outcome) {
+      results.push(outcome);
+    } else {
+      candidates.push(outcome);
+    }
+  }
+
+  // 埋め込みベクトルの類似度スコア (embedding.enabled の場合)
+  await applyEmbeddingScores(candidates, config, { db, cassette, connpassClient, eventRepo });
+
+  // 2. フォロー中・人気イベント・キーワードで省略したイベント以外をLLMで判断 (llm.batch_size 件ずつまとめて分析)
+  // 費用・回数の上限 (llm.max_cost_per_scan / llm.max_calls_per_scan) を超えた分は分析しない
+  const analysisResult = await llmMatcher.analyzeEvents(
+    candidates.filter((c) => !c.followed && !c.isPopular && !c.skipLLM).map((c) => c.event),
+  );
+  const { results: analyses, cost: llmCost } = analysisResult;
+  const deferred = new Set(analysisResult.deferred);
+
+  // 3. マッチング結果を反映し、カレンダーに登録
+  for (const candidate of candidates) {
+    if (deferred.has(candidate.event.id)) {
+      // 処理済みにせず次回のスキャンに持ち越す
+      results.push({ event: candidate.event, action: "deferred" });
+      continue;
+    }
+    results.push(await matchEvent(candidate, analyses.get(candidate.event.id), processContext));
+  }
+
+  // 取得できた日付の検索結果から消えた登録済みイベントを中止とみなす (全件取得時のみ)
+  if (config.cancellation.enabled && fetchResult.mode === "full") {
+    const removed = await findRemovedEvents(fetchResult, connpassClient, eventRepo);
+    for (const { event, calendarEventId } of removed) {
+      results.push(
+        await retractEvent(
+          { ...event, cancellation: { kind: "cancelled", reason: "removed" } },
+          calendarEventId,
+          processContext,
+        ),
+      );
+    }
+  }
+
+  // 全イベントの処理が終わってからカーソルを進める (途中で失敗した場合は次回再取得)
+  // 取得に失敗した対象・持ち越したイベント・分析に失敗したイベントがある場合は
+  // 次回のスキャンで再取得するためカーソルを進めない
+  const analysisFailures = results.filter((r) => r.action === "analysis_failed").length;
+  if (fetchResult.failures.length > 0) {
+    logger.warn(
+      { failures: fetchResult.failures.length },
+      "Fetch failures, scan cursor not advanced",
+    );
+  } else if (deferred.size > 0) {
+    logger.warn({ deferred: deferred.size }, "Events deferred, scan cursor not advanced");
+  } else if (analysisFailures > 0) {
+    logger.warn({ failed: analysisFailures }, "Analysis failures, scan cursor not advanced");
+  } else {
+    cursorRepo.save({
+      cursorKey,
+      lastUpdatedAt: fetchResult.latestUpdatedAt ?? cursor?.last_updated_at ?? null,
+      ...(fetchResult.mode === "full" ? { fullScanAt: new Date().toISOString() } : {}),
+    });
+  }
+
+  return {
+    results,
+    fetchMode: fetchResult.mode,
+    fetchTargetCount: fetchResult.targetCount,
+    fetchFailures: fetchResult.failures,
+    capacityAlerts,
+    llmCalls: llmCost.calls,
+    llmCost,
+    // 中止・延期の反映 (削除・タイトル変更) も書き込みとして数える
+    calendarWrites:
+      processContext.stats.calendarWrites +
+      results.filter((r) => r.retraction !== undefined).length,
+  };
+}
+
+/**
+ * カテゴリのアイコンを取得
+ */
+function getCategoryIcon(category?: EventCategory): string {
+  switch (category) {
+    case "followed":
+      return "⭐"; // トマト
+    case "speaker":
+      return "🎤"; // ブルーベリー
+    case "popular":
+      return "🔥"; // みかん
+    case "interest":
+      return "💡"; // デフォルト
+    default:
+      return "📅";
+  }
+}
+
+/**
+ * 開催形態のアイコンを取得
+ */
+function getVenueIcon(type: EnrichedEvent["venue"]["type"]): string {
+  switch (type) {
+    case "online":
+      return "🌐";
+    case "hybrid":
+      return "🔀";
+    default:
+      return "📍";
+  }
+}
+
+/**
+ * 定員状況のアラートを表示用に整形
+ */
+function formatCapacityAlert(event: EnrichedEvent): string {
+  const alert = event.capacity_alert;
+  if (!alert) {
+    return "";
+  }
+  const label = alert.type === "seats_available" ? "空席あり" : "残りわずか";
+  return `[${label}] ${alert.accepted}/${alert.limit}人 (補欠${alert.waiting}人)`;
+}
+
+/**
+ * 中止・延期の検出結果を表示用に整形
+ */
+function formatCancellation(result: ScanResult): string {
+  const cancellation = result.event.cancellation;
+  if (!cancellation) {
+    return "";
+  }
+  const label = cancellation.kind === "postponed" ? "延期" : "中止";
+  const reason = cancellation.reason === "removed" ? " (connpassから削除)" : "";
+  const retraction =
+    result.retraction === "deleted"
+      ? " → カレンダーから削除"
+      : result.retraction === "renamed"
+        ? " → カレンダーのタイトルを変更"
+        : "";
+  return `[${label}${reason}${retraction}]`;
+}
+
+/**
+ * connpass 取得の失敗率を取得
+ */
+function getFetchFailureRatio(report: ScanReport): number {
+  if (report.fetchTargetCount === 0) {
+    return 0;
+  }
+  return report.fetchFailures.length / report.fetchTargetCount;
+}
+
+/**
+ * 興味スコアを整形 (埋め込みの類似度スコア・評価による補正があれば併記)
+ */
+function formatInterestScore(match: InterestMatch): string {
+  const embedding =
+    match.embedding_score !== undefined ? ` (類似度: ${match.embedding_score}/100)` : "";
+  const adjustment = match.feedback_adjustment ?? 0;
+  const feedback =
+    adjustment !== 0 ? ` (評価による補正: ${adjustment > 0 ? "+" : ""}${adjustment})` : "";
+  return `${match.score}/100${embedding}${feedback}`;
+}
+
+/**
+ * LLM の使用量を1行に整形
+ */
+function formatLLMCost(cost: CostSummary): string {
+  const unpriced =
+    cost.unpricedModels.length > 0 ? ` (not priced: ${cost.unpricedModels.join(", ")})` : "";
+  return `$${cost.costUsd.toFixed(4)} / ${cost.calls} calls / ${cost.inputTokens} in, ${cost.outputTokens} out tokens${unpriced}`;
+}
+
+/**
+ * 分析に応答した LLM ごとのイベント数
+ */
+function countLLMProviders(results: ScanResult[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const result of results) {
+    if (result.llmProvider) {
+      counts[result.llmProvider] = (counts[result.llmProvider] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * LLM とルールで登壇機会の判定が食い違ったイベントを表示
+ */
+function displaySpeakerDisagreements(results: ScanResult[]): void {
+  const disagreements = results.filter((r) => r.speakerDisagreement);
+  if (disagreements.length === 0) {
+    return;
+  }
+  console.log(`🤔 Speaker verdicts disagree (LLM vs rules): ${disagreements.length}`);
+  for (const result of disagreements) {
+    const llm = result.event.speaker_opportunity?.has_opportunity ? "あり" : "なし";
+    const keywords = result.speakerDisagreement?.detected_keywords ?? [];
+    const rules = keywords.length > 0 ? `あり (${keywords.join(", ")})` : "なし";
+    console.log(`   ${result.event.title}`);
+    console.log(`      LLM: ${llm} / ルール: ${rules}`);
+    console.log(`      🔗 ${result.event.url}`);
+  }
+  console.log();
+}
+
+/**
+ * scan の出力形式
+ * json: マッチしたイベントの配列, json-v2: 定員アラート・中止・LLM の費用なども含むオブジェクト
+ */
+type ScanOutputFormat = "text" | "json" | "json-v2";
+
+/**
+ * 登録・更新・スキップしたイベントを JSON 出力用に変換
+ */
+function toMatchedEventJSON(r: ScanResult) {
+  return {
+    id: r.event.id,
+    title: r.event.title,
+    url: r.event.url,
+    started_at: r.event.started_at,
+    is_online: r.event.is_online,
+    venue: r.event.venue,
+    matched_watches: r.event.matched_watches,
+    changes: r.event.changes,
+    distance_km: r.event.geo?.distance_km,
+    speaker_opportunity: r.event.speaker_opportunity,
+    interest_match: r.event.interest_match,
+    action: r.action,
+    category: r.category,
+    calendar_event_id: r.calendarEventId,
+    llm_provider: r.llmProvider,
+  };
+}
+
+/**
+ * 結果を JSON で表示
+ */
+function displayResultsJSON(report: ScanReport, matched: ScanResult[], version: "v1" | "v2"): void {
+  if (version === "v1") {
+    console.log(JSON.stringify(matched.map(toMatchedEventJSON), null, 2));
+    return;
+  }
+
+  const { results } = report;
+  const withAction = (action: ScanResult["action"]) => results.filter((r) => r.action === action);
+  console.log(
+    JSON.stringify(
+      {
+        events: matched.map(toMatchedEventJSON),
+        capacity_alerts: report.capacityAlerts.map((e) => ({
+          id: e.id,
+          title: e.title,
+          url: e.url,
+          alert: e.capacity_alert,
+        })),
+        cancelled: withAction("cancelled").map((r) => ({
+          id: r.event.id,
+          title: r.event.title,
+          url: r.event.url,
+          started_at: r.event.started_at,
+          cancellation: r.event.cancellation,
+          retraction: r.retraction,
+          calendar_event_id: r.calendarEventId,
+        })),
+        analysis_failed: withAction("analysis_failed").map((r) => ({
+          id: r.event.id,
+          title: r.event.title,
+          url: r.event.url,
+          llm_provider: r.llmProvider,
+        })),
+        deferred: withAction("deferred").map((r) => ({
+          id: r.event.id,
+          title: r.event.title,
+          url: r.event.url,
+        })),
+        speaker_disagreements: results
+          .filter((r) => r.speakerDisagreement)
+          .map((r) => ({
+            id: r.event.id,
+            title: r.event.title,
+            url: r.event.url,
+            llm: r.event.speaker_opportunity,
+            heuristic: r.speakerDisagreement,
+          })),
+        llm_providers: countLLMProviders(results),
+        llm_cost: {
+          calls: report.llmCost.calls,
+          input_tokens: report.llmCost.inputTokens,
+          output_tokens: report.llmCost.outputTokens,
+          cost_usd: report.llmCost.costUsd,
+          unpriced_models: report.llmCost.unpricedModels,
+        },
+        fetch_mode: report.fetchMode,
+        fetch_failures: report.fetchFailures,
+      },
+      null,
+      2,
+    ),
+  );
+}
+
+/**
+ * scan の出力形式 (--json-v2 は --json より優先)
+ */
+function getScanOutputFormat(options: ScanOptions): ScanOutputFormat {
+  if (options.jsonV2) {
+    return "json-v2";
+  }
+  return options.json ? "json" : "text";
+}
+
+/**
+ * 結果を表示
+ */
+function displayResults(report: ScanReport, format: ScanOutputFormat): void {
+  const { results, fetchFailures } = report;
+  const matched = results.filter((r) => r.action === "registered" || r.action === "updated" || r.action === "skipped");
+  const cancelled = results.filter((r) => r.action === "cancelled");
+  const analysisFailed = results.filter((r) => r.action === "analysis_failed");
+  const deferred = results.filter((r) => r.action === "deferred");
+
+  if (format !== "text") {
+    displayResultsJSON(report, matched, format === "json-v2" ? "v2" : "v1");
+    return;
+  }
+
+  console.log("\n=== Scan Results ===\n");
+  console.log(`Total events: ${results.length}`);
+  console.log(`Matched: ${matched.length}`);
+  console.log(`  ⭐ Followed: ${matched.filter((r) => r.category === "followed").length}`);
+  console.log(`  🎤 Speaker: ${matched.filter((r) => r.category === "speaker").length}`);
+  console.log(`  🔥 Popular: ${matched.filter((r) => r.category === "popular").length}`);
+  console.log(`  💡 Interest: ${matched.filter((r) => r.category === "interest").length}`);
+  console.log(`  ✅ Registered: ${results.filter((r) => r.action === "registered").length}`);
+  console.log(`  🔄 Updated: ${results.filter((r) => r.action === "updated").length}`);
+  console.log(`Filtered: ${results.filter((r) => r.action === "filtered").length}`);
+  console.log(`Excluded: ${results.filter((r) => r.action === "excluded").length}`);
+  console.log(`Already processed: ${results.filter((r) => r.action === "already_processed").length}`);
+  console.log(`No match: ${results.filter((r) => r.action === "no_match").length}`);
+  console.log(`Cancelled: ${cancelled.length}`);
+  console.log(`Analysis failed: ${analysisFailed.length}`);
+  console.log(`Deferred: ${deferred.length}`);
+  console.log(`LLM cost: ${formatLLMCost(report.llmCost)}`);
+  const llmProviders = Object.entries(countLLMProviders(results));
+  if (llmProviders.length > 0) {
+    const summary = llmProviders.map(([provider, count]) => `${provider} (${count})`);
+    console.log(`LLM: ${summary.join(", ")}`);
+  }
+  console.log();
+
+  if (analysisFailed.length > 0) {
+    console.log(`⚠️ LLM analysis failed (retried next scan): ${analysisFailed.length}`);
+    for (const result of analysisFailed) {
+      console.log(`   ${result.event.title}`);
+      console.log(`      🔗 ${result.event.url}`);
+    }
+    console.log();
+  }
+
+  if (deferred.length > 0) {
+    console.log(`⏭️ Deferred to next scan (LLM budget exhausted): ${deferred.length}`);
+    console.log();
+  }
+
+  displaySpeakerDisagreements(results);
+
+  if (cancelled.length > 0) {
+    console.log(`🚫 Cancelled events: ${cancelled.length}`);
+    for (const result of cancelled) {
+      console.log(`   ${formatCancellation(result)} ${result.event.title}`);
+      console.log(`      🔗 ${result.event.url}`);
+    }
+    console.log();
+  }
+
+  if (report.capacityAlerts.length > 0) {
+    console.log(`🪑 Seat alerts: ${report.capacityAlerts.length}`);
+    for (const event of report.capacityAlerts) {
+      console.log(`   ${formatCapacityAlert(event)} ${event.title}`);
+      console.log(`      🔗 ${event.url}`);
+    }
+    console.log();
+  }
+
+  if (fetchFailures.length > 0) {
+    console.log(`⚠️ Fetch failures: ${fetchFailures.length}/${report.fetchTargetCount}`);
+    for (const failure of fetchFailures) {
+      console.log(`   ❌ ${failure.target}: ${failure.error}`);
+    }
+    console.log();
+  }
+
+  if (matched.length === 0) {
+    console.log("No matching events found.");
+    return;
+  }
+
+  console.log("Matched Events:");
+  console.log("-".repeat(80));
+
+  for (const result of matched) {
+    const { event } = result;
+    const categoryIcon = getCategoryIcon(result.category);
+    const locationIcon = getVenueIcon(event.venue.type);
+
+    console.log(`\n${categoryIcon} ${event.title}`);
+    const area = [event.venue.prefecture, event.venue.city].filter(Boolean).join(" ");
+    const venueSuffix = event.venue.type !== "online" && area ? ` (${area})` : "";
+    console.log(`   ${locationIcon} ${event.place ?? "オンライン"}${venueSuffix}`);
+    console.log(`   📅 ${event.started_at}`);
+    console.log(`   🔗 ${event.url}`);
+    console.log(`   👥 ${event.accepted}人参加`);
+
+    if (event.changes) {
+      console.log(`   📝 変更: ${formatChanges(event.changes)}`);
+    }
+
+    if (event.geo?.distance_km != null) {
+      const range = event.geo.in_range ? "" : " (範囲外)";
+      console.log(`   📏 ${event.geo.origin}から${event.geo.distance_km}km${range}`);
+    }
+
+    if (event.capacity_alert) {
+      console.log(`   🪑 ${formatCapacityAlert(event)}`);
+    }
+
+    if (event.matched_watches.length > 0) {
+      console.log(`   👀 ウォッチ: ${event.matched_watches.join(", ")}`);
+    }
+
+    if (event.speaker_opportunity?.has_opportunity) {
+      console.log(`   🎤 登壇機会: ${event.speaker_opportunity.detected_keywords.join(", ")}`);
+    }
+
+    if (event.interest_match) {
+      console.log(`   📊 スコア: ${formatInterestScore(event.interest_match)}`);
+      if (event.interest_match.llm_reason) {
+        console.log(`   💬 理由: ${event.interest_match.llm_reason}`);
+      }
+    }
+
+    if (result.action === "registered") {
+      console.log(`   ✅ カレンダーに登録済み`);
+    } else if (result.action === "updated") {
+      console.log(`   🔄 カレンダーを更新済み`);
+    } else if (result.action === "skipped") {
+      console.log(`   ⏭️ スキップ (dry-run または認証なし)`);
+    }
+  }
+
+  console.log("\n" + "-".repeat(80));
+}
+
+interface SearchCommandOptions {
+  from?: string;
+  to?: string;
+  category?: string;
+  online?: boolean;
+  offline?: boolean;
+  minScore?: number;
+  sort: string;
+  limit: number;
+  json?: boolean;
+}
+
+/**
+ * search コマンドのオプションを検証して検索条件に変換
+ */
+function toSearchOptions(query: string, options: SearchCommandOptions): EventSearchOptions {
+  const categories: EventCategory[] = ["followed", "speaker", "popular", "interest"];
+  const category = categories.find((c) => c === options.category);
+  if (options.category && !category) {
+    throw new Error(`Unknown category: ${options.category}`);
+  }
+  for (const date of [options.from, options.to]) {
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`Invalid date: ${date} (expected yyyy-MM-dd)`);
+    }
+  }
+  if (options.online && options.offline) {
+    throw new Error("--online and --offline cannot be used together");
+  }
+  const sort = (["date", "distance"] as const).find((s) => s === options.sort);
+  if (!sort) {
+    throw new Error(`Unknown sort order: ${options.sort} (expected date or distance)`);
+  }
+
+  return {
+    query,
+    sort,
+    limit: options.limit,
+    ...(options.from ? { from: options.from } : {}),
+    ...(options.to ? { to: options.to } : {}),
+    ...(category ? { category } : {}),
+    ...(options.online ? { venue: "online" as const } : {}),
+    ...(options.offline ? { venue: "offline" as const } : {}),
+    ...(options.minScore !== undefined ? { minScore: options.minScore } : {}),
+  };
+}
+
+/**
+ * 検索結果を表示
+ */
+function displaySearchResults(results: EventSearchResult[], json: boolean): void {
+  if (json) {
+    console.log(
+      JSON.stringify(
+        results.map((r) => ({
+          id: r.eventId,
+          title: r.title,
+          url: r.url,
+          started_at: r.startedAt,
+          place: r.place,
+          group: r.groupTitle,
+          is_online: r.isOnline,
+          distance_km: r.distanceKm,
+          category: r.category,
+          interest_score: r.interestScore,
+          calendar_event_id: r.calendarEventId,
+        })),
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log("No events found.");
+    return;
+  }
+
+  console.log(`\n${"開催日時".padEnd(16)}  種別  スコア  タイトル`);
+  console.log("-".repeat(80));
+  for (const r of results) {
+    const date = format(new Date(r.startedAt), "yyyy-MM-dd HH:mm");
+    const icon = r.category ? getCategoryIcon(r.category) : "  ";
+    const score = r.interestScore === null ? "-" : String(r.interestScore);
+    const distance = r.distanceKm !== null ? ` (${r.distanceKm}km)` : "";
+    const place = r.isOnline ? "🌐 オンライン" : `📍 ${r.place ?? "未定"}${distance}`;
+    const indent = " ".repeat(30);
+    console.log(`${date}  ${icon}    ${score.padStart(4)}  ${r.title}`);
+    console.log(`${indent}${place}${r.groupTitle ? ` / ${r.groupTitle}` : ""}`);
+    console.log(`${indent}🔗 ${r.url}`);
+  }
+  console.log("-".repeat(80));
+  console.log(`${results.length} events`);
+}
+
+/**
+ * 実行履歴を1行に整形
+ */
+function formatScanRun(run: ScanRunRecord): string {
+  const startedAt = format(new Date(run.startedAt), "yyyy-MM-dd HH:mm:ss");
+  const duration = run.finishedAt
+    ? `${((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000).toFixed(1)}s`
+    : "-";
+  const trigger = run.dryRun ? `${run.triggeredBy}, dry-run` : run.triggeredBy;
+  const count = (action: ScanResult["action"]) => run.actionCounts[action] ?? 0;
+  const cost = run.llmCostUsd !== null ? `, $${run.llmCostUsd.toFixed(4)}` : "";
+  return [
+    `#${run.id} ${startedAt} (${trigger}) ${run.status} ${duration}`,
+    `events ${run.eventCount ?? 0}`,
+    `✅ ${count("registered")} 🔄 ${count("updated")} 🚫 ${count("cancelled")}`,
+    `LLM ${run.llmCalls ?? 0} (failed ${count("analysis_failed")}, deferred ${count("deferred")}${cost}) / calendar ${run.calendarWrites ?? 0}`,
+    `failures ${run.fetchFailures.length}`,
+  ].join(" | ");
+}
+
+interface HistoryOptions {
+  limit: number;
+  event?: number;
+  json?: boolean;
+}
+
+/**
+ * 最近の実行履歴を表示
+ */
+function displayScanRuns(runRepo: ScanRunRepository, limit: number, json: boolean): void {
+  const runs = runRepo.list(limit);
+  if (json) {
+    console.log(JSON.stringify(runs, null, 2));
+    return;
+  }
+  if (runs.length === 0) {
+    console.log("No scan runs recorded yet.");
+    return;
+  }
+  console.log("\n=== Scan History ===\n");
+  for (const run of runs) {
+    console.log(formatScanRun(run));
+  }
+}
+
+/**
+ * 実行履歴の詳細 (集計・エラー・判定したイベント) を表示
+ */
+function displayScanRun(runRepo: ScanRunRepository, runId: number, json: boolean): void {
+  const detail = runRepo.get(runId);
+  if (!detail) {
+    throw new Error(`Scan run not found: ${runId}`);
+  }
+  if (json) {
+    console.log(JSON.stringify(detail, null, 2));
+    return;
+  }
+
+  const { run, events } = detail;
+  console.log(`\n${formatScanRun(run)}\n`);
+  console.log(`Fetch mode: ${run.fetchMode ?? "-"}`);
+  for (const [action, count] of Object.entries(run.actionCounts)) {
+    console.log(`  ${action}: ${count}`);
+  }
+  if (run.error) {
+    console.log(`\n❌ Error: ${run.error}`);
+  }
+  for (const failure of run.fetchFailures) {
+    console.log(`⚠️ ${failure.target}: ${failure.error}`);
+  }
+
+  if (events.length > 0) {
+    console.log("\nEvents (already processed events are omitted):");
+    for (const event of events) {
+      const icon = event.category ? `${getCategoryIcon(event.category)} ` : "";
+      const score = event.interestScore === null ? "" : ` (score ${event.interestScore})`;
+      console.log(`  [${event.action}] ${icon}${event.title}${score} #${event.eventId}`);
+    }
+  }
+}
+
+/**
+ * イベントごとの判定履歴を表示
  */
-async function scanEvents(config: Config, options: ScanOptions): Promise<ScanResult[]> {
-  const results: ScanResult[] = [];
-
-  // DB初期化
-  const dbPath = join(homedir(), APP_DIR, DB_FILE);
-  const db = initializeDatabase(dbPath);
-  const eventRepo = new EventRepository(db);
+function displayEventHistory(db: Database.Database, eventId: number, json: boolean): void {
+  const history = new ScanRunRepository(db).getEventHistory(eventId);
+  const decisions = new LLMDecisionRepository(db).getByEvent(eventId);
+  if (json) {
+    console.log(JSON.stringify({ runs: history, llm_decisions: decisions }, null, 2));
+    return;
+  }
+  if (history.length === 0 && decisions.length === 0) {
+    console.log(`No scan runs recorded for event ${eventId}.`);
+    return;
+  }
 
-  // クライアント初期化
-  const connpassClient = new ConnpassClient(config);
-  const llmMatcher = new LLMMatcher(config);
-  const calendarClient = new GoogleCalendarClient(config);
+  console.log(`\n=== Event ${eventId}: ${history[0]?.title ?? ""} ===\n`);
+  for (const entry of history) {
+    const startedAt = format(new Date(entry.startedAt), "yyyy-MM-dd HH:mm:ss");
+    const icon = entry.category ? ` ${getCategoryIcon(entry.category)}` : "";
+    const score = entry.interestScore === null ? "" : ` (score ${entry.interestScore})`;
+    console.log(`  #${entry.runId} ${startedAt}  ${entry.action}${icon}${score}`);
+  }
 
-  // カレンダー認証チェック (dry-run以外)
-  if (!options.dryRun && config.google_calendar.enabled) {
-    const isAuth = await calendarClient.isAuthenticated();
-    if (!isAuth) {
-      logger.warn("Google Calendar not authenticated. Run 'connpass-watcher auth' first.");
+  if (decisions.length > 0) {
+    console.log("\nLLM decisions:");
+    for (const decision of decisions) {
+      console.log(`  ${decision.createdAt}  ${formatLLMDecision(decision)}`);
     }
   }
+}
 
-  // connpassからイベント取得
-  logger.info("Fetching events from connpass...");
-  const events = await connpassClient.getEvents();
-  logger.info({ count: events.length }, "Events fetched");
-
-  // イベントを保存
-  eventRepo.saveEvents(events);
-
-  const minParticipants = config.interests.min_participants;
-  const excludeKeywords = config.interests.exclude_keywords;
-
-  // 各イベントを処理
-  for (const event of events) {
-    // event は既に EnrichedEvent で is_online, is_tokyo が設定済み
+/**
+ * LLM 呼び出しの記録を1行に整形
+ */
+function formatLLMDecision(decision: LLMDecisionRecord): string {
+  const tokens =
+    decision.inputTokens !== null || decision.outputTokens !== null
+      ? ` ${decision.inputTokens ?? "?"}/${decision.outputTokens ?? "?"} tokens`
+      : "";
+  const outcome = decision.error
+    ? `❌ ${decision.error}`
+    : `score ${decision.parsedResult?.interest.score ?? "?"}`;
+  const batch = decision.batchSize > 1 ? ` (batch ${decision.batchSize})` : "";
+  return `${decision.provider}/${decision.model}${batch} ${decision.latencyMs}ms${tokens}  ${outcome}`;
+}
 
-    // 処理済みチェック & 更新検知
-    const isProcessed = eventRepo.isProcessed(event.id);
-    const needsReprocessing = isProcessed && eventRepo.needsReprocessing(event.id, event.updated_at);
-    const existingRecord = isProcessed ? eventRepo.getProcessedEvent(event.id) : null;
+interface FeedbackOptions {
+  config?: string;
+  like?: boolean;
+  dislike?: boolean;
+  note?: string;
+  remove?: boolean;
+}
 
-    if (isProcessed && !needsReprocessing) {
-      results.push({ event, action: "already_processed" });
-      continue;
+/**
+ * イベントへの評価を記録
+ * 保存されていないイベントは connpass から取得して保存し、低評価のイベントは指定があればカレンダーから削除
+ */
+async function recordFeedback(eventId: number, options: FeedbackOptions): Promise<void> {
+  if (!Number.isInteger(eventId)) {
+    throw new Error("Event ID must be an integer");
+  }
+  if (options.like === options.dislike) {
+    throw new Error("Specify either --like or --dislike");
+  }
+  const label: FeedbackLabel = options.like ? "like" : "dislike";
+  const config = loadConfig(options.config);
+
+  const db = initializeDatabase(join(homedir(), APP_DIR, DB_FILE));
+  try {
+    const eventRepo = new EventRepository(db);
+    let event: EnrichedEvent | null = eventRepo.getStoredEvent(eventId);
+    if (!event) {
+      const [fetched] = await new ConnpassClient(config).getEventsByIds([eventId]);
+      if (!fetched) {
+        throw new Error(`Event not found: ${eventId}`);
+      }
+      eventRepo.saveEvents([fetched]);
+      event = fetched;
     }
 
-    if (needsReprocessing) {
-      logger.info({ eventId: event.id, title: event.title }, "Event updated, reprocessing");
+    new FeedbackRepository(db).save({ eventId, label, note: options.note });
+    console.log(`${label === "like" ? "👍 Liked" : "👎 Disliked"}: ${event.title}`);
+
+    const calendarEventId = eventRepo.getProcessedEvent(eventId)?.calendar_event_id;
+    const remove = options.remove ?? config.feedback.remove_disliked;
+    if (label === "dislike" && remove && calendarEventId) {
+      const deleted = await new GoogleCalendarClient(config).deleteEvent(calendarEventId);
+      if (deleted) {
+        eventRepo.clearCalendarEventId(eventId);
+        console.log("🗑️ Removed from Google Calendar");
+      } else {
+        console.log("⚠️ Failed to remove from Google Calendar");
+      }
     }
+  } finally {
+    db.close();
+  }
+}
 
-    // 2. 除外キーワードチェック
-    if (shouldExclude(event, excludeKeywords)) {
-      logger.debug({ eventId: event.id, title: event.title }, "Excluded by keyword");
-      results.push({ event, action: "excluded" });
-      continue;
-    }
+interface EvalOptions {
+  config?: string;
+  save: boolean;
+  list?: boolean;
+  diff?: string[];
+  limit: number;
+  json?: boolean;
+}
 
-    // 3. 人気イベント判定 (50人以上)
-    const isPopular = event.accepted >= minParticipants;
+/**
+ * 設定済みの判定方法を評価用に作成 (LLM はプロバイダごと、キーワード・埋め込みは設定がある場合のみ)
+ */
+async function createEvalMatchers(config: Config, db: Database.Database): Promise<EvalMatcher[]> {
+  const eventRepo = new EventRepository(db);
+  const labelled = loadLabelledEvents(new FeedbackRepository(db), eventRepo);
+  const matchers = createLLMEvalMatchers(
+    config,
+    labelled.slice(0, config.feedback.few_shot_examples),
+  );
+
+  const keyword = createKeywordEvalMatcher(config);
+  if (keyword) {
+    matchers.push(keyword);
+  }
+  matchers.push(createSpeakerRulesEvalMatcher(config));
 
-    let hasSpeakerOpportunity = false;
-    let isInterested = false;
+  if (config.embedding.enabled) {
+    const likedEvents = await loadLikedEvents(
+      config.embedding.liked_events,
+      new ConnpassClient(config),
+      eventRepo,
+    );
+    matchers.push(
+      createEmbeddingEvalMatcher(config, createEmbeddingMatcher(config, db), likedEvents),
+    );
+  }
+  return matchers;
+}
 
-    if (isPopular) {
-      // 人気イベントはLLM判定なしで興味ありとみなす
-      isInterested = true;
-      event.interest_match = {
-        is_match: true,
-        score: 80,
-        keyword_matches: [`人気(${event.accepted}人)`],
-      };
-      logger.info({ eventId: event.id, title: event.title, accepted: event.accepted }, "Popular event");
-    } else {
-      // 4. 50人以下はLLMで判断
-      const llmResult = await llmMatcher.analyzeEvent(event);
-      event.interest_match = llmResult.interest;
-      event.speaker_opportunity = llmResult.speaker;
-      hasSpeakerOpportunity = llmResult.speaker.has_opportunity;
-      isInterested = llmResult.interest.is_match;
-    }
-
-    // マッチしない場合はスキップ
-    if (!isInterested && !hasSpeakerOpportunity) {
-      eventRepo.markProcessed({
-        eventId: event.id,
-        hasSpeakerOpportunity: false,
-        hasInterestMatch: false,
-        interestScore: event.interest_match?.score ?? 0,
-        connpassUpdatedAt: event.updated_at,
-      });
-      results.push({ event, action: "no_match" });
-      continue;
-    }
+/**
+ * 保存済みの評価結果を取得
+ */
+function getEvalRun(evalRepo: EvalRunRepository, runId: string): EvalRunRecord {
+  const record = evalRepo.get(Number(runId));
+  if (!record) {
+    throw new Error(`Eval run not found: ${runId}`);
+  }
+  return record;
+}
 
-    // カテゴリと色の決定 (優先順: 登壇 > 人気 > 興味)
-    let category: "popular" | "speaker" | "interest";
-    if (hasSpeakerOpportunity) {
-      category = "speaker";
-    } else if (isPopular) {
-      category = "popular";
-    } else {
-      category = "interest";
+/**
+ * eval コマンド (評価の実行・保存済みの評価の一覧・比較)
+ */
+async function runEval(datasetPath: string | undefined, options: EvalOptions): Promise<void> {
+  const json = options.json ?? false;
+  const db = initializeDatabase(join(homedir(), APP_DIR, DB_FILE));
+  try {
+    const evalRepo = new EvalRunRepository(db);
+    if (options.list) {
+      displayEvalRuns(evalRepo.list(options.limit), json);
+      return;
     }
-
-    const colorId = calendarClient.getColorId({
-      hasSpeakerOpportunity,
-      isPopular,
-      isOnline: event.is_online,
-    });
-
-    // カレンダーに登録または更新 (upsert: 既存イベントがあれば更新)
-    let calendarEventId: string | undefined = existingRecord?.calendar_event_id ?? undefined;
-    let calendarAction: "created" | "updated" | "skipped" = "skipped";
-
-    if (!options.dryRun && config.google_calendar.enabled) {
-      try {
-        const isAuth = await calendarClient.isAuthenticated();
-        if (isAuth) {
-          // upsertEvent: 既存イベントがあれば更新、なければ新規作成
-          const upsertResult = await calendarClient.upsertEvent(event, colorId ? { colorId } : undefined);
-          calendarEventId = upsertResult.calendarEventId ?? undefined;
-          calendarAction = upsertResult.action;
-
-          if (calendarAction === "created") {
-            logger.info({ eventId: event.id, calendarEventId }, "Calendar event created");
-          } else if (calendarAction === "updated") {
-            logger.info({ eventId: event.id, calendarEventId }, "Calendar event updated");
-          }
-        }
-      } catch (error) {
-        logger.error({ error, eventId: event.id }, "Failed to register/update calendar");
+    if (options.diff) {
+      const [baseId, targetId, ...rest] = options.diff;
+      if (!baseId || !targetId || rest.length > 0) {
+        throw new Error("--diff requires two eval run IDs (base and target)");
       }
+      const base = getEvalRun(evalRepo, baseId).report;
+      const target = getEvalRun(evalRepo, targetId).report;
+      displayEvalDiff(diffReports(base, target), json);
+      return;
+    }
+    if (!datasetPath) {
+      throw new Error("Specify a JSONL dataset, --list or --diff");
     }
 
-    // 処理済みとしてマーク
-    eventRepo.markProcessed({
-      eventId: event.id,
-      hasSpeakerOpportunity,
-      hasInterestMatch: isInterested,
-      interestScore: event.interest_match?.score ?? 0,
-      connpassUpdatedAt: event.updated_at,
-      ...(calendarEventId ? { calendarEventId } : {}),
-    });
+    const config = loadConfig(options.config);
+    const dataset = loadDataset(datasetPath);
+    const report = await runEvaluation(dataset, await createEvalMatchers(config, db));
+    const runId = options.save ? evalRepo.save(report) : null;
+    displayEvalReport(report, runId, json);
+  } finally {
+    db.close();
+  }
+}
 
-    // アクションを決定
-    let action: ScanResult["action"];
-    if (calendarAction === "updated") {
-      action = "updated";
-    } else if (calendarAction === "created") {
-      action = "registered";
-    } else {
-      action = "skipped";
-    }
+function formatRatio(value: number | null): string {
+  return value === null ? "-" : value.toFixed(3);
+}
 
-    const result: ScanResult = {
-      event,
-      action,
-      category,
-    };
-    if (colorId) {
-      result.colorId = colorId;
-    }
-    if (calendarEventId) {
-      result.calendarEventId = calendarEventId;
-    }
-    results.push(result);
+function formatClassification(metrics: ClassificationMetrics): string {
+  const counts = `TP ${metrics.truePositives} FP ${metrics.falsePositives} FN ${metrics.falseNegatives} TN ${metrics.trueNegatives}`;
+  return `P ${formatRatio(metrics.precision)} R ${formatRatio(metrics.recall)} F1 ${formatRatio(metrics.f1)} (${counts})`;
+}
+
+function displayCalibration(calibration: Calibration): void {
+  console.log(`  📊 Calibration (Brier ${calibration.brier.toFixed(3)})`);
+  for (const b of calibration.buckets) {
+    const positive = Math.round(b.positiveRate * 100);
+    console.log(`     ${b.range}: ${b.count}件 平均${Math.round(b.meanScore)} → 正解${positive}%`);
   }
+}
 
-  db.close();
-  return results;
+function displayDisagreements(disagreements: Disagreement[]): void {
+  console.log(`  ❌ Disagreements: ${disagreements.length}`);
+  for (const d of disagreements) {
+    const score = d.score !== undefined ? ` (score ${d.score})` : "";
+    console.log(`     [${d.kind}] expected ${d.expected}, got ${d.predicted}${score}: ${d.title}`);
+    if (d.reason) {
+      console.log(`       ${d.reason}`);
+    }
+  }
 }
 
 /**
- * カテゴリのアイコンを取得
+ * 判定方法ごとの評価結果を表示
  */
-function getCategoryIcon(category?: "popular" | "speaker" | "interest"): string {
-  switch (category) {
-    case "speaker":
-      return "🎤"; // ブルーベリー
-    case "popular":
-      return "🔥"; // みかん
-    case "interest":
-      return "💡"; // デフォルト
-    default:
-      return "📅";
+function displayMatcherEvaluation(evaluation: MatcherEvaluation): void {
+  console.log(`\n${evaluation.name}`);
+  if (evaluation.interest) {
+    console.log(`  💡 Interest: ${formatClassification(evaluation.interest)}`);
+  }
+  if (evaluation.speaker) {
+    console.log(`  🎤 Speaker:  ${formatClassification(evaluation.speaker)}`);
+  }
+  if (evaluation.calibration) {
+    displayCalibration(evaluation.calibration);
+  }
+  if (evaluation.latency) {
+    const { meanMs, p50Ms, p95Ms } = evaluation.latency;
+    console.log(`  ⏱️ Latency/event: mean ${meanMs}ms, p50 ${p50Ms}ms, p95 ${p95Ms}ms`);
+  }
+  if (evaluation.cost) {
+    console.log(`  💰 Cost: ${formatLLMCost(evaluation.cost)}`);
+  }
+  if (evaluation.failures > 0) {
+    console.log(`  ⚠️ Failed: ${evaluation.failures}`);
+  }
+  if (evaluation.disagreements.length > 0) {
+    displayDisagreements(evaluation.disagreements);
   }
 }
 
 /**
- * 結果を表示
+ * 評価結果を表示
  */
-function displayResults(results: ScanResult[], json: boolean): void {
-  const matched = results.filter((r) => r.action === "registered" || r.action === "updated" || r.action === "skipped");
-
+function displayEvalReport(report: EvalReport, runId: number | null, json: boolean): void {
   if (json) {
-    console.log(
-      JSON.stringify(
-        matched.map((r) => ({
-          id: r.event.id,
-          title: r.event.title,
-          url: r.event.url,
-          started_at: r.event.started_at,
-          is_online: r.event.is_online,
-          speaker_opportunity: r.event.speaker_opportunity,
-          interest_match: r.event.interest_match,
-          action: r.action,
-          category: r.category,
-          calendar_event_id: r.calendarEventId,
-        })),
-        null,
-        2,
-      ),
-    );
+    console.log(JSON.stringify({ run_id: runId, ...report }, null, 2));
     return;
   }
 
-  console.log("\n=== Scan Results ===\n");
-  console.log(`Total events: ${results.length}`);
-  console.log(`Matched: ${matched.length}`);
-  console.log(`  🎤 Speaker: ${matched.filter((r) => r.category === "speaker").length}`);
-  console.log(`  🔥 Popular: ${matched.filter((r) => r.category === "popular").length}`);
-  console.log(`  💡 Interest: ${matched.filter((r) => r.category === "interest").length}`);
-  console.log(`  ✅ Registered: ${results.filter((r) => r.action === "registered").length}`);
-  console.log(`  🔄 Updated: ${results.filter((r) => r.action === "updated").length}`);
-  console.log(`Filtered: ${results.filter((r) => r.action === "filtered").length}`);
-  console.log(`Excluded: ${results.filter((r) => r.action === "excluded").length}`);
-  console.log(`Already processed: ${results.filter((r) => r.action === "already_processed").length}`);
-  console.log(`No match: ${results.filter((r) => r.action === "no_match").length}`);
+  console.log(`\n=== Evaluation: ${report.dataset} (${report.eventCount} events) ===`);
+  for (const evaluation of report.matchers) {
+    displayMatcherEvaluation(evaluation);
+  }
   console.log();
+  if (runId !== null) {
+    console.log(`Saved as eval run #${runId} (compare with: eval --diff <base> ${runId})`);
+  }
+}
 
-  if (matched.length === 0) {
-    console.log("No matching events found.");
+/**
+ * 保存済みの評価結果の一覧を表示
+ */
+function displayEvalRuns(records: EvalRunRecord[], json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(records, null, 2));
+    return;
+  }
+  if (records.length === 0) {
+    console.log("No eval runs found.");
     return;
   }
 
-  console.log("Matched Events:");
-  console.log("-".repeat(80));
+  for (const { id, createdAt, report } of records) {
+    console.log(`\n#${id} ${createdAt} ${report.dataset} (${report.eventCount} events)`);
+    for (const m of report.matchers) {
+      const cost = m.cost ? `  $${m.cost.costUsd.toFixed(4)}` : "";
+      console.log(
+        `  ${m.name}  interest F1 ${formatRatio(m.interest?.f1 ?? null)}  speaker F1 ${formatRatio(m.speaker?.f1 ?? null)}${cost}`,
+      );
+    }
+  }
+  console.log();
+}
 
-  for (const result of matched) {
-    const { event } = result;
-    const categoryIcon = getCategoryIcon(result.category);
-    const locationIcon = event.is_online ? "🌐" : "📍";
+function formatMetricChange(change: MetricChange): string {
+  const format = (value: number | null) => {
+    if (value === null) {
+      return "-";
+    }
+    if (change.metric === "cost_usd") {
+      return `$${value.toFixed(4)}`;
+    }
+    return Number.isInteger(value) ? String(value) : value.toFixed(3);
+  };
+  const delta =
+    change.base !== null && change.target !== null && change.base !== change.target
+      ? ` (${change.target > change.base ? "+" : ""}${format(change.target - change.base)})`
+      : "";
+  return `${change.metric.padEnd(20)} ${format(change.base)} → ${format(change.target)}${delta}`;
+}
 
-    console.log(`\n${categoryIcon} ${event.title}`);
-    console.log(`   ${locationIcon} ${event.place ?? "オンライン"}`);
-    console.log(`   📅 ${event.started_at}`);
-    console.log(`   🔗 ${event.url}`);
-    console.log(`   👥 ${event.accepted}人参加`);
+/**
+ * 2回の評価の比較を表示
+ */
+function displayEvalDiff(diff: EvalDiff, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(diff, null, 2));
+    return;
+  }
 
-    if (event.speaker_opportunity?.has_opportunity) {
-      console.log(`   🎤 登壇機会: ${event.speaker_opportunity.detected_keywords.join(", ")}`);
+  if (!diff.sameDataset) {
+    console.log("\n⚠️ The runs used different datasets, metrics are not directly comparable.");
+  }
+  for (const matcher of diff.matchers) {
+    console.log(`\n${matcher.name}`);
+    for (const change of matcher.metrics) {
+      console.log(`  ${formatMetricChange(change)}`);
     }
-
-    if (event.interest_match) {
-      console.log(`   📊 スコア: ${event.interest_match.score}/100`);
-      if (event.interest_match.llm_reason) {
-        console.log(`   💬 理由: ${event.interest_match.llm_reason}`);
-      }
+    for (const d of matcher.fixed) {
+      console.log(`  ✅ fixed [${d.kind}] ${d.title}`);
     }
-
-    if (result.action === "registered") {
-      console.log(`   ✅ カレンダーに登録済み`);
-    } else if (result.action === "updated") {
-      console.log(`   🔄 カレンダーを更新済み`);
-    } else if (result.action === "skipped") {
-      console.log(`   ⏭️ スキップ (dry-run または認証なし)`);
+    for (const d of matcher.regressed) {
+      console.log(`  ❌ regressed [${d.kind}] ${d.title}`);
     }
   }
-
-  console.log("\n" + "-".repeat(80));
+  if (diff.onlyInBase.length > 0) {
+    console.log(`\nOnly in base: ${diff.onlyInBase.join(", ")}`);
+  }
+  if (diff.onlyInTarget.length > 0) {
+    console.log(`\nOnly in target: ${diff.onlyInTarget.join(", ")}`);
+  }
+  console.log();
 }
 
 // CLI コマンド定義
@@ -323,14 +1980,28 @@ program
   .description("Scan connpass events once")
   .option("-c, --config <path>", "Path to config file")
   .option("--dry-run", "Show results without registering to calendar")
-  .option("--json", "Output results as JSON")
+  .option("--json", "Output matched events as a JSON array")
+  .option("--json-v2", "Output a JSON object with alerts, cancellations and LLM cost")
+  .option("--full", "Ignore the incremental cursor and sweep every date")
+  .option("--record <dir>", "Record connpass and LLM responses as fixtures (implies --dry-run)")
+  .option("--replay <dir>", "Replay recorded fixtures offline (implies --dry-run)")
   .action(async (options: ScanOptions) => {
     try {
       const config = loadConfig(options.config);
       logger.info("Starting scan...");
 
-      const results = await scanEvents(config, options);
-      displayResults(results, options.json ?? false);
+      const report = await scanEvents(config, options);
+      displayResults(report, getScanOutputFormat(options));
+
+      // 取得失敗率が閾値を超えた場合のみ異常終了
+      const failureRatio = getFetchFailureRatio(report);
+      if (failureRatio > config.connpass.max_failure_ratio) {
+        logger.error(
+          { failureRatio, threshold: config.connpass.max_failure_ratio },
+          "Too many connpass fetch failures",
+        );
+        process.exitCode = 1;
+      }
 
       logger.info("Scan completed");
     } catch (error) {
@@ -381,19 +2052,29 @@ program
 
       // 初回実行
       console.log("Running initial scan...");
-      const results = await scanEvents(config, { dryRun: false });
-      displayResults(results, false);
+      const report = await scanEvents(config, { dryRun: false, trigger: "daemon" });
+      displayResults(report, "text");
 
       // スケジュール実行
       schedule.scheduleJob(config.schedule.cron, async () => {
         logger.info("Running scheduled scan...");
         try {
-          const results = await scanEvents(config, { dryRun: false });
+          const { results, fetchFailures, llmCalls, llmCost, calendarWrites } = await scanEvents(
+            config,
+            { dryRun: false, trigger: "daemon" },
+          );
           const matched = results.filter(
             (r) => r.action === "registered" || r.action === "skipped",
           );
           logger.info(
-            { total: results.length, matched: matched.length },
+            {
+              total: results.length,
+              matched: matched.length,
+              fetchFailures: fetchFailures.length,
+              llmCalls,
+              llmCostUsd: llmCost.costUsd,
+              calendarWrites,
+            },
             "Scheduled scan completed",
           );
         } catch (error) {
@@ -632,4 +2313,138 @@ program
     }
   });
 
+program
+  .command("search <query>")
+  .description("Full-text search over events stored by previous scans")
+  .option("--from <date>", "Only events on or after this date (yyyy-MM-dd)")
+  .option("--to <date>", "Only events on or before this date (yyyy-MM-dd)")
+  .option("--category <category>", "Only events matched as followed, speaker, popular or interest")
+  .option("--online", "Only online events")
+  .option("--offline", "Only offline and hybrid events")
+  .option("--min-score <score>", "Only events with at least this interest score", Number)
+  .option("--sort <order>", "Sort by date (newest first) or distance from geo.origins", "date")
+  .option("--limit <count>", "Maximum number of events to show", Number, 50)
+  .option("--json", "Output results as JSON")
+  .action((query: string, options: SearchCommandOptions) => {
+    try {
+      const searchOptions = toSearchOptions(query, options);
+
+      const dbPath = join(homedir(), APP_DIR, DB_FILE);
+      const db = initializeDatabase(dbPath);
+      const searchRepo = new EventSearchRepository(db);
+      const results = searchRepo.search(searchOptions);
+      db.close();
+
+      displaySearchResults(results, options.json ?? false);
+    } catch (error) {
+      logger.error(error, "Search failed");
+      process.exit(1);
+    }
+  });
+
+program
+  .command("feedback <eventId>")
+  .description("Mark an event as relevant or irrelevant to improve future matching")
+  .option("-c, --config <path>", "Path to config file")
+  .option("--like", "The event is relevant")
+  .option("--dislike", "The event is irrelevant (excluded from future scans)")
+  .option("--note <text>", "Why the event is (ir)relevant, shown to the LLM")
+  .option("--remove", "Remove a disliked event from Google Calendar")
+  .action(async (eventId: string, options: FeedbackOptions) => {
+    try {
+      await recordFeedback(Number(eventId), options);
+    } catch (error) {
+      logger.error(error, "Feedback failed");
+      process.exit(1);
+    }
+  });
+
+program
+  .command("eval [dataset]")
+  .description("Evaluate the configured matchers against a labelled JSONL dataset")
+  .option("-c, --config <path>", "Path to config file")
+  .option("--no-save", "Do not save the results for later comparison")
+  .option("--list", "Show saved eval runs")
+  .option("--diff <runIds...>", "Compare two saved eval runs (base, then target)")
+  .option("--limit <count>", "Number of eval runs to show with --list", Number, 20)
+  .option("--json", "Output as JSON")
+  .action(async (dataset: string | undefined, options: EvalOptions) => {
+    try {
+      await runEval(dataset, options);
+    } catch (error) {
+      logger.error(error, "Eval failed");
+      process.exit(1);
+    }
+  });
+
+program
+  .command("history [runId]")
+  .description("Show recent scan runs, or the details of one run")
+  .option("--limit <count>", "Number of runs to show", Number, 20)
+  .option("--event <eventId>", "Show how one connpass event was handled across runs", Number)
+  .option("--json", "Output as JSON")
+  .action((runId: string | undefined, options: HistoryOptions) => {
+    try {
+      const dbPath = join(homedir(), APP_DIR, DB_FILE);
+      const db = initializeDatabase(dbPath);
+      const runRepo = new ScanRunRepository(db);
+
+      try {
+        if (options.event !== undefined) {
+          displayEventHistory(db, options.event, options.json ?? false);
+        } else if (runId !== undefined) {
+          displayScanRun(runRepo, Number(runId), options.json ?? false);
+        } else {
+          displayScanRuns(runRepo, options.limit, options.json ?? false);
+        }
+      } finally {
+        db.close();
+      }
+    } catch (error) {
+      logger.error(error, "History failed");
+      process.exit(1);
+    }
+  });
+
+const dbCommand = program.command("db").description("Manage the local SQLite database");
+
+dbCommand
+  .command("migrate")
+  .description("Apply pending schema migrations")
+  .option("--status", "Show applied and pending migrations without applying them")
+  .action((options: { status?: boolean }) => {
+    try {
+      const dbPath = join(homedir(), APP_DIR, DB_FILE);
+      const db = openDatabase(dbPath);
+
+      if (options.status) {
+        const status = getMigrationStatus(db);
+        db.close();
+
+        console.log(`\nDatabase: ${dbPath}`);
+        console.log(`Schema version: ${status.currentVersion} (latest: ${status.latestVersion})\n`);
+        for (const migration of status.migrations) {
+          const mark = migration.appliedAt ? `✅ ${migration.appliedAt}` : "⏳ pending";
+          console.log(`  ${String(migration.version).padStart(3, "0")} ${migration.name}  ${mark}`);
+        }
+        if (status.currentVersion > status.latestVersion) {
+          console.log(
+            "\n⚠️ Database is newer than this version of connpass-watcher. Upgrade first.",
+          );
+        }
+        return;
+      }
+
+      try {
+        const applied = runMigrations(db);
+        console.log(applied > 0 ? `Applied ${applied} migration(s).` : "Database is up to date.");
+      } finally {
+        db.close();
+      }
+    } catch (error) {
+      logger.error(error, "Migration failed");
+      process.exit(1);
+    }
+  });
+
 program.parse();
@@ -1,7 +1,14 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { createChildLogger } from "../utils/logger.js";
-import { claudeRateLimiter } from "../utils/rate-limiter.js";
-import type { LLMProvider, LLMProviderConfig } from "./types.js";
+import { parseStructured, toJSONSchema } from "./structured.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMResponse,
+} from "./types.js";
 
 const logger = createChildLogger("llm:anthropic");
 
@@ -11,7 +18,7 @@ const logger = createChildLogger("llm:anthropic");
 export class AnthropicProvider implements LLMProvider {
   readonly name = "anthropic";
   private client: Anthropic;
-  private model: string;
+  readonly model: string;
 
   constructor(config: LLMProviderConfig) {
     this.model = config.model;
@@ -22,18 +29,16 @@ export class AnthropicProvider implements LLMProvider {
     logger.debug({ model: this.model }, "Anthropic provider initialized");
   }
 
-  async generateText(prompt: string): Promise<string> {
-    const response = await claudeRateLimiter.schedule(async () => {
-      return this.client.messages.create({
-        model: this.model,
-        max_tokens: 1024,
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-      });
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<LLMResponse> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: options.maxTokens ?? 1024,
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
     });
 
     const content = response.content[0];
@@ -41,6 +46,50 @@ export class AnthropicProvider implements LLMProvider {
       throw new Error("Unexpected response type from Anthropic");
     }
 
-    return content.text;
+    return {
+      text: content.text,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+  /**
+   * ツール呼び出しを強制し、ツールの入力として JSON を受け取る
+   */
+  async generateJSON<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    options: GenerateOptions = {},
+  ): Promise<LLMJSONResponse<T>> {
+    const response = await this.client.messages.create({
+      model: this.model,
+      max_tokens: options.maxTokens ?? 1024,
+      tools: [
+        {
+          name: spec.name,
+          description: spec.description,
+          input_schema: toJSONSchema(spec.schema) as Anthropic.Tool.InputSchema,
+        },
+      ],
+      tool_choice: { type: "tool", name: spec.name },
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+    });
+
+    const usage = {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    };
+    const toolUse = response.content.find((block) => block.type === "tool_use");
+    if (!toolUse) {
+      throw new Error("No tool_use block in Anthropic response");
+    }
+
+    return parseStructured(spec, toolUse.input, JSON.stringify(toolUse.input), usage);
   }
 }
@@ -0,0 +1,64 @@
+import type { Cassette } from "../utils/cassette.js";
+import { createLLMProvider } from "./factory.js";
+import type { FallbackOptions } from "./fallback.js";
+import { generateJSON, parseStructured } from "./structured.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMResponse,
+} from "./types.js";
+
+/**
+ * カセット経由のLLMプロバイダ
+ * 記録モードでは実プロバイダの応答を保存し、再生モードでは実プロバイダを作成せず保存済みの応答を返す
+ */
+export class CassetteLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private cassette: Cassette;
+  private inner: LLMProvider | null;
+
+  constructor(cassette: Cassette, configs: LLMProviderConfig[], fallback?: FallbackOptions) {
+    const primary = configs[0];
+    if (!primary) {
+      throw new Error("At least one LLM provider is required");
+    }
+    this.name = primary.provider;
+    this.model = primary.model;
+    this.cassette = cassette;
+    this.inner = cassette.mode === "record" ? createLLMProvider(configs, fallback) : null;
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
+    return this.cassette.through<LLMResponse>("llm", { provider: this.name, prompt }, () => {
+      if (!this.inner) {
+        throw new Error("LLM provider is not available in replay mode");
+      }
+      return this.inner.generateText(prompt, options);
+    });
+  }
+
+  /**
+   * 再生時も保存済みの値をスキーマで検証する
+   */
+  async generateJSON<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    options?: GenerateOptions,
+  ): Promise<LLMJSONResponse<T>> {
+    const response = await this.cassette.through<LLMJSONResponse<unknown>>(
+      "llm",
+      { provider: this.name, prompt, schema: spec.name },
+      () => {
+        if (!this.inner) {
+          throw new Error("LLM provider is not available in replay mode");
+        }
+        return generateJSON(this.inner, prompt, spec, options);
+      },
+    );
+    return parseStructured(spec, response.data, response.text, response.usage);
+  }
+}
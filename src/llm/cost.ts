@@ -0,0 +1,127 @@
+import { createChildLogger } from "../utils/logger.js";
+import type { LLMUsage } from "./types.js";
+
+const logger = createChildLogger("llm:cost");
+
+/**
+ * モデルの料金 (USD / 100万トークン)
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * 組み込みの料金表 (llm.prices で上書き・追加できる)
+ */
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "claude-sonnet-4-20250514": { input: 3, output: 15 },
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+};
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+/**
+ * 1回のスキャンでの LLM の使用量
+ */
+export interface CostSummary {
+  /** LLM の呼び出し回数 (バッチ1回も1回と数える) */
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** 料金表にあるモデルの合計 (USD) */
+  costUsd: number;
+  /** 料金表にないため費用に含めていないモデル */
+  unpricedModels: string[];
+}
+
+/**
+ * スキャンごとの上限 (未指定は無制限)
+ */
+export interface CostLimits {
+  maxCostUsd?: number | undefined;
+  maxCalls?: number | undefined;
+}
+
+/**
+ * LLM の呼び出し回数・トークン数・費用を集計し、スキャンごとの上限を判定
+ */
+export class CostTracker {
+  private prices: Record<string, ModelPrice>;
+  private limits: CostLimits;
+  private calls = 0;
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private costUsd = 0;
+  private unpricedModels = new Set<string>();
+
+  constructor(prices: Record<string, ModelPrice> = {}, limits: CostLimits = {}) {
+    this.prices = { ...DEFAULT_PRICES, ...prices };
+    this.limits = limits;
+  }
+
+  /**
+   * モデルの料金を取得 (Ollama と OpenRouter の :free モデルは無料、不明な場合は null)
+   */
+  getPrice(provider: string, model: string): ModelPrice | null {
+    const price = this.prices[model];
+    if (price) {
+      return price;
+    }
+    if (provider === "ollama" || model.endsWith(":free")) {
+      return FREE;
+    }
+    return null;
+  }
+
+  /**
+   * LLM 呼び出し1回分を記録 (エラーでトークン数が不明な場合も回数には含める)
+   */
+  record(provider: string, model: string, usage: LLMUsage | undefined): void {
+    const inputTokens = usage?.inputTokens ?? 0;
+    const outputTokens = usage?.outputTokens ?? 0;
+    this.calls++;
+    this.inputTokens += inputTokens;
+    this.outputTokens += outputTokens;
+
+    const price = this.getPrice(provider, model);
+    if (price) {
+      this.costUsd += (inputTokens * price.input + outputTokens * price.output) / 1000000;
+    } else if (!this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model);
+      logger.warn({ provider, model }, "No price for LLM model, cost is not counted");
+    }
+
+    logger.debug(
+      { calls: this.calls, costUsd: this.costUsd, inputTokens, outputTokens },
+      "LLM cost updated",
+    );
+  }
+
+  /**
+   * 回数・費用の上限に達したか
+   */
+  isExhausted(): boolean {
+    const { maxCalls, maxCostUsd } = this.limits;
+    return (
+      (maxCalls !== undefined && this.calls >= maxCalls) ||
+      (maxCostUsd !== undefined && this.costUsd >= maxCostUsd)
+    );
+  }
+
+  getSummary(): CostSummary {
+    return {
+      calls: this.calls,
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      costUsd: this.costUsd,
+      unpricedModels: [...this.unpricedModels],
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("llm:embedding");
+
+/**
+ * 埋め込みプロバイダの設定
+ */
+export interface EmbeddingProviderConfig {
+  provider: "ollama" | "openai";
+  model: string;
+  baseUrl?: string | undefined;
+  apiKey?: string | undefined;
+}
+
+/**
+ * テキストの埋め込みベクトルを計算するプロバイダ
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  /** 入力と同じ順のベクトルを返す */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Ollama の埋め込み (/api/embed)
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "ollama";
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(config: EmbeddingProviderConfig) {
+    this.model = config.model;
+    this.baseUrl = config.baseUrl ?? "http://localhost:11434";
+    logger.debug({ model: this.model, baseUrl: this.baseUrl }, "Ollama embedding initialized");
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embedding API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { embeddings?: number[][] };
+    if (data.embeddings?.length !== texts.length) {
+      throw new Error("Unexpected number of embeddings from Ollama");
+    }
+    return data.embeddings;
+  }
+}
+
+/**
+ * OpenAI 互換APIの埋め込み (/embeddings)
+ * LM Studio・llama.cpp server などローカルのサーバーでは api_key は不要
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string | undefined;
+
+  constructor(config: EmbeddingProviderConfig) {
+    this.model = config.model;
+    this.baseUrl = (config.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+    this.apiKey = config.apiKey;
+    logger.debug({ model: this.model, baseUrl: this.baseUrl }, "OpenAI embedding initialized");
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI embedding API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as {
+      data?: Array<{ index: number; embedding: number[] }>;
+    };
+    if (data.data?.length !== texts.length) {
+      throw new Error("Unexpected number of embeddings from OpenAI-compatible API");
+    }
+    // index 順に並べ直す (サーバーによっては入力順で返さない)
+    return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+/**
+ * 埋め込みプロバイダを作成
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case "ollama":
+      return new OllamaEmbeddingProvider(config);
+    case "openai":
+      return new OpenAIEmbeddingProvider(config);
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
+  }
+}
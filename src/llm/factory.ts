@@ -1,17 +1,52 @@
 import { createChildLogger } from "../utils/logger.js";
 import { AnthropicProvider } from "./anthropic.js";
+import { FallbackLLMProvider, type FallbackOptions } from "./fallback.js";
 import { GoogleProvider } from "./google.js";
 import { OllamaProvider } from "./ollama.js";
 import { OpenAIProvider } from "./openai.js";
 import { OpenRouterProvider } from "./openrouter.js";
+import { RateLimitedLLMProvider } from "./rate-limit.js";
 import type { LLMProvider, LLMProviderConfig } from "./types.js";
 
 const logger = createChildLogger("llm:factory");
 
 /**
  * LLMプロバイダを作成
+ * 複数の設定を渡した場合は、先頭から順に試すフォールバック付きのプロバイダを返す
  */
-export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+export function createLLMProvider(
+  config: LLMProviderConfig | LLMProviderConfig[],
+  fallback: FallbackOptions = { timeoutMs: 60 * 1000, cooldownMs: 5 * 60 * 1000 },
+): LLMProvider {
+  if (!Array.isArray(config)) {
+    return createSingleProvider(config);
+  }
+  const [primary, ...rest] = config;
+  if (!primary) {
+    throw new Error("At least one LLM provider is required");
+  }
+  if (rest.length === 0) {
+    return createSingleProvider(primary);
+  }
+  // フォールバック時のみタイムアウトを設定 (応答しないプロバイダを待ち続けないため)
+  const providers = config.map((c) =>
+    createSingleProvider({
+      ...c,
+      rateLimit: { maxConcurrent: 1, ...c.rateLimit, timeoutMs: fallback.timeoutMs },
+    }),
+  );
+  return new FallbackLLMProvider(providers, fallback);
+}
+
+/**
+ * プロバイダを作成し、レート制限が指定されていればラップする
+ */
+function createSingleProvider(config: LLMProviderConfig): LLMProvider {
+  const provider = createBaseProvider(config);
+  return config.rateLimit ? new RateLimitedLLMProvider(provider, config.rateLimit) : provider;
+}
+
+function createBaseProvider(config: LLMProviderConfig): LLMProvider {
   logger.debug({ provider: config.provider, model: config.model }, "Creating LLM provider");
 
   switch (config.provider) {
@@ -30,6 +65,16 @@ export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
   }
 }
 
+/**
+ * 1分あたりのリクエスト数の上限の既定値 (llm.rate_limit.requests_per_minute 省略時)
+ * Anthropic は無料枠の上限 (5 rpm)、その他は無制限
+ */
+export function getDefaultRequestsPerMinute(
+  provider: LLMProviderConfig["provider"],
+): number | undefined {
+  return provider === "anthropic" ? 5 : undefined;
+}
+
 /**
  * デフォルトのモデル名を取得
  */
@@ -0,0 +1,124 @@
+import { createChildLogger } from "../utils/logger.js";
+import { LLMTimeoutError } from "./rate-limit.js";
+import { StructuredOutputError, generateJSON } from "./structured.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMResponse,
+} from "./types.js";
+
+const logger = createChildLogger("llm:fallback");
+
+/**
+ * フォールバックの設定
+ */
+export interface FallbackOptions {
+  /** 1回の呼び出しのタイムアウト (ミリ秒、各プロバイダのレート制限で適用) */
+  timeoutMs: number;
+  /** 失敗したプロバイダを使わない期間 (ミリ秒) */
+  cooldownMs: number;
+}
+
+/**
+ * 失敗の種類 (ログ用)
+ */
+function classifyError(error: unknown): "timeout" | "rate_limited" | "invalid_output" | "error" {
+  if (error instanceof LLMTimeoutError) {
+    return "timeout";
+  }
+  if (error instanceof StructuredOutputError) {
+    return "invalid_output";
+  }
+  // OpenAI / Anthropic SDK のエラーは status を持つ
+  const status = (error as { status?: unknown } | null)?.status;
+  if (status === 429 || (error instanceof Error && /\b429\b/.test(error.message))) {
+    return "rate_limited";
+  }
+  return "error";
+}
+
+/**
+ * 複数のプロバイダを順に試すLLMプロバイダ
+ * エラー・タイムアウト・レート制限で次のプロバイダに切り替え、失敗したプロバイダは一定期間使わない
+ * name と model は先頭 (優先) のプロバイダのもので、実際に応答したプロバイダは応答の provider / model に入る
+ */
+export class FallbackLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private providers: LLMProvider[];
+  private cooldownMs: number;
+  /** プロバイダの添字ごとの、再び使えるようになる時刻 */
+  private cooldownUntil = new Map<number, number>();
+
+  constructor(providers: LLMProvider[], options: Pick<FallbackOptions, "cooldownMs">) {
+    const primary = providers[0];
+    if (!primary) {
+      throw new Error("At least one LLM provider is required");
+    }
+    this.name = primary.name;
+    this.model = primary.model;
+    this.providers = providers;
+    this.cooldownMs = options.cooldownMs;
+  }
+
+  generateText(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
+    return this.run((provider) => provider.generateText(prompt, options));
+  }
+
+  generateJSON<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    options?: GenerateOptions,
+  ): Promise<LLMJSONResponse<T>> {
+    return this.run((provider) => generateJSON(provider, prompt, spec, options));
+  }
+
+  private async run<R extends LLMResponse>(
+    request: (provider: LLMProvider) => Promise<R>,
+  ): Promise<R> {
+    let lastError: unknown = null;
+
+    for (const [index, provider] of this.providers.entries()) {
+      const until = this.cooldownUntil.get(index);
+      if (until !== undefined && until > Date.now()) {
+        logger.debug(
+          { provider: provider.name, model: provider.model },
+          "LLM provider is cooling down",
+        );
+        continue;
+      }
+
+      try {
+        const response = await request(provider);
+        this.cooldownUntil.delete(index);
+        if (index > 0) {
+          logger.info(
+            { provider: provider.name, model: provider.model },
+            "LLM fallback provider answered",
+          );
+        }
+        return { ...response, provider: provider.name, model: provider.model };
+      } catch (error) {
+        lastError = error;
+        const reason = classifyError(error);
+        logger.warn(
+          {
+            provider: provider.name,
+            model: provider.model,
+            reason,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "LLM provider failed, trying next provider",
+        );
+        // 応答が不正だった場合はプロバイダ自体は使えるため、次回以降も試す
+        if (reason !== "invalid_output") {
+          this.cooldownUntil.set(index, Date.now() + this.cooldownMs);
+        }
+      }
+    }
+
+    throw lastError ?? new Error("All LLM providers are cooling down");
+  }
+}
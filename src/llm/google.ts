@@ -1,16 +1,57 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GoogleGenerativeAI, type ResponseSchema } from "@google/generative-ai";
 import { createChildLogger } from "../utils/logger.js";
-import type { LLMProvider, LLMProviderConfig } from "./types.js";
+import { type JSONSchema, parseStructuredText, toJSONSchema } from "./structured.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMResponse,
+  LLMUsage,
+} from "./types.js";
 
 const logger = createChildLogger("llm:google");
 
+function toUsage(
+  metadata: { promptTokenCount: number; candidatesTokenCount: number } | undefined,
+): { usage?: LLMUsage } {
+  return metadata
+    ? {
+        usage: {
+          inputTokens: metadata.promptTokenCount,
+          outputTokens: metadata.candidatesTokenCount,
+        },
+      }
+    : {};
+}
+
+/**
+ * Gemini の responseSchema (OpenAPI のサブセット) に変換
+ * additionalProperties には対応していないため取り除く
+ */
+function toResponseSchema(schema: JSONSchema): ResponseSchema {
+  const { additionalProperties: _, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([key, value]) => [key, toResponseSchema(value)]),
+          ),
+        }
+      : {}),
+    ...(items ? { items: toResponseSchema(items) } : {}),
+  } as ResponseSchema;
+}
+
 /**
  * Google Generative AI (Gemini) プロバイダ
  */
 export class GoogleProvider implements LLMProvider {
   readonly name = "google";
   private client: GoogleGenerativeAI;
-  private model: string;
+  readonly model: string;
 
   constructor(config: LLMProviderConfig) {
     if (!config.apiKey) {
@@ -21,7 +62,7 @@ export class GoogleProvider implements LLMProvider {
     logger.debug({ model: this.model }, "Google provider initialized");
   }
 
-  async generateText(prompt: string): Promise<string> {
+  async generateText(prompt: string): Promise<LLMResponse> {
     const model = this.client.getGenerativeModel({ model: this.model });
     const result = await model.generateContent(prompt);
     const response = result.response;
@@ -31,6 +72,33 @@ export class GoogleProvider implements LLMProvider {
       throw new Error("Empty response from Google");
     }
 
-    return text;
+    return { text, ...toUsage(response.usageMetadata) };
+  }
+
+  /**
+   * responseSchema を指定して JSON を生成
+   */
+  async generateJSON<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    options: GenerateOptions = {},
+  ): Promise<LLMJSONResponse<T>> {
+    const model = this.client.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: toResponseSchema(toJSONSchema(spec.schema)),
+        ...(options.maxTokens ? { maxOutputTokens: options.maxTokens } : {}),
+      },
+    });
+    const result = await model.generateContent(prompt);
+    const response = result.response;
+    const text = response.text();
+
+    if (!text) {
+      throw new Error("Empty response from Google");
+    }
+
+    return parseStructuredText(spec, text, toUsage(response.usageMetadata).usage);
   }
 }
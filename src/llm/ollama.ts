@@ -1,11 +1,29 @@
 import { createChildLogger } from "../utils/logger.js";
-import type { LLMProvider, LLMProviderConfig } from "./types.js";
+import { parseStructuredText, toJSONSchema } from "./structured.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMResponse,
+  LLMUsage,
+} from "./types.js";
 
 const logger = createChildLogger("llm:ollama");
 
 interface OllamaResponse {
   response: string;
   done: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+function toUsage(data: OllamaResponse): LLMUsage {
+  return {
+    ...(data.prompt_eval_count !== undefined ? { inputTokens: data.prompt_eval_count } : {}),
+    ...(data.eval_count !== undefined ? { outputTokens: data.eval_count } : {}),
+  };
 }
 
 /**
@@ -14,7 +32,7 @@ interface OllamaResponse {
 export class OllamaProvider implements LLMProvider {
   readonly name = "ollama";
   private baseUrl: string;
-  private model: string;
+  readonly model: string;
 
   constructor(config: LLMProviderConfig) {
     this.model = config.model;
@@ -22,17 +40,35 @@ export class OllamaProvider implements LLMProvider {
     logger.debug({ model: this.model, baseUrl: this.baseUrl }, "Ollama provider initialized");
   }
 
-  async generateText(prompt: string): Promise<string> {
+  async generateText(prompt: string): Promise<LLMResponse> {
+    const data = await this.generate({ model: this.model, prompt, stream: false });
+    return { text: data.response, usage: toUsage(data) };
+  }
+
+  /**
+   * format に JSON Schema を指定して JSON を生成
+   */
+  async generateJSON<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    _options?: GenerateOptions,
+  ): Promise<LLMJSONResponse<T>> {
+    const data = await this.generate({
+      model: this.model,
+      prompt,
+      stream: false,
+      format: toJSONSchema(spec.schema),
+    });
+    return parseStructuredText(spec, data.response, toUsage(data));
+  }
+
+  private async generate(body: Record<string, unknown>): Promise<OllamaResponse> {
     const response = await fetch(`${this.baseUrl}/api/generate`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({
-        model: this.model,
-        prompt,
-        stream: false,
-      }),
+      body: JSON.stringify(body),
     });
 
     if (!response.ok) {
@@ -45,6 +81,6 @@ export class OllamaProvider implements LLMProvider {
       throw new Error("Empty response from Ollama");
     }
 
-    return data.response;
+    return data;
   }
 }
@@ -1,6 +1,14 @@
 import OpenAI from "openai";
 import { createChildLogger } from "../utils/logger.js";
-import type { LLMProvider, LLMProviderConfig } from "./types.js";
+import { parseStructuredText, toJSONSchema } from "./structured.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMResponse,
+} from "./types.js";
 
 const logger = createChildLogger("llm:openai");
 
@@ -11,7 +19,7 @@ const logger = createChildLogger("llm:openai");
 export class OpenAIProvider implements LLMProvider {
   readonly name = "openai";
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
 
   constructor(config: LLMProviderConfig) {
     this.model = config.model;
@@ -22,10 +30,10 @@ export class OpenAIProvider implements LLMProvider {
     logger.debug({ model: this.model, baseUrl: config.baseUrl }, "OpenAI provider initialized");
   }
 
-  async generateText(prompt: string): Promise<string> {
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<LLMResponse> {
     const response = await this.client.chat.completions.create({
       model: this.model,
-      max_tokens: 1024,
+      max_tokens: options.maxTokens ?? 1024,
       messages: [
         {
           role: "user",
@@ -39,6 +47,60 @@ export class OpenAIProvider implements LLMProvider {
       throw new Error("Empty response from OpenAI");
     }
 
-    return content;
+    return {
+      text: content,
+      ...(response.usage
+        ? {
+            usage: {
+              inputTokens: response.usage.prompt_tokens,
+              outputTokens: response.usage.completion_tokens,
+            },
+          }
+        : {}),
+    };
+  }
+  /**
+   * response_format: json_schema で JSON を生成
+   */
+  async generateJSON<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    options: GenerateOptions = {},
+  ): Promise<LLMJSONResponse<T>> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: options.maxTokens ?? 1024,
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: spec.name,
+          description: spec.description,
+          schema: { ...toJSONSchema(spec.schema) },
+          strict: true,
+        },
+      },
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("Empty response from OpenAI");
+    }
+
+    return parseStructuredText(
+      spec,
+      content,
+      response.usage
+        ? {
+            inputTokens: response.usage.prompt_tokens,
+            outputTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    );
   }
 }
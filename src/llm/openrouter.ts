@@ -1,6 +1,14 @@
 import OpenAI from "openai";
 import { createChildLogger } from "../utils/logger.js";
-import type { LLMProvider, LLMProviderConfig } from "./types.js";
+import { parseStructuredText, toJSONSchema } from "./structured.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMResponse,
+} from "./types.js";
 
 const logger = createChildLogger("llm:openrouter");
 
@@ -12,7 +20,7 @@ const logger = createChildLogger("llm:openrouter");
 export class OpenRouterProvider implements LLMProvider {
   readonly name = "openrouter";
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
 
   constructor(config: LLMProviderConfig) {
     const apiKey = config.apiKey || process.env["OPENROUTER_API_KEY"];
@@ -46,12 +54,12 @@ export class OpenRouterProvider implements LLMProvider {
     logger.debug("OpenRouter provider initialized");
   }
 
-  async generateText(prompt: string): Promise<string> {
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<LLMResponse> {
     logger.debug({ model: this.model, promptLength: prompt.length }, "Sending request to OpenRouter");
 
     const response = await this.client.chat.completions.create({
       model: this.model,
-      max_tokens: 1024,
+      max_tokens: options.maxTokens ?? 1024,
       messages: [
         {
           role: "user",
@@ -67,6 +75,60 @@ export class OpenRouterProvider implements LLMProvider {
       throw new Error("Empty response from OpenRouter");
     }
 
-    return content;
+    return {
+      text: content,
+      ...(response.usage
+        ? {
+            usage: {
+              inputTokens: response.usage.prompt_tokens,
+              outputTokens: response.usage.completion_tokens,
+            },
+          }
+        : {}),
+    };
+  }
+  /**
+   * response_format: json_schema で JSON を生成
+   */
+  async generateJSON<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    options: GenerateOptions = {},
+  ): Promise<LLMJSONResponse<T>> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: options.maxTokens ?? 1024,
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: spec.name,
+          description: spec.description,
+          schema: { ...toJSONSchema(spec.schema) },
+          strict: true,
+        },
+      },
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("Empty response from OpenRouter");
+    }
+
+    return parseStructuredText(
+      spec,
+      content,
+      response.usage
+        ? {
+            inputTokens: response.usage.prompt_tokens,
+            outputTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    );
   }
 }
@@ -0,0 +1,85 @@
+import Bottleneck from "bottleneck";
+import { createChildLogger } from "../utils/logger.js";
+import { generateJSON } from "./structured.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMResponse,
+} from "./types.js";
+
+const logger = createChildLogger("llm:rate-limit");
+
+/**
+ * プロバイダごとのレート制限
+ */
+export interface RateLimitOptions {
+  /** 1分あたりのリクエスト数の上限 (未指定は無制限) */
+  requestsPerMinute?: number | undefined;
+  /** 同時に実行するリクエスト数 */
+  maxConcurrent: number;
+  /** 1回の呼び出しのタイムアウト (ミリ秒、待ち時間は含まない。未指定は無制限) */
+  timeoutMs?: number | undefined;
+}
+
+/**
+ * LLM 呼び出しのタイムアウト
+ */
+export class LLMTimeoutError extends Error {
+  constructor(provider: string, timeoutMs: number) {
+    super(`LLM request to ${provider} timed out after ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/**
+ * レート制限・同時実行数の制限付きのLLMプロバイダ
+ */
+export class RateLimitedLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private inner: LLMProvider;
+  private limiter: Bottleneck;
+  private timeoutMs: number | undefined;
+
+  constructor(inner: LLMProvider, options: RateLimitOptions) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.inner = inner;
+    this.timeoutMs = options.timeoutMs;
+    this.limiter = new Bottleneck({
+      maxConcurrent: options.maxConcurrent,
+      minTime: options.requestsPerMinute ? Math.ceil(60000 / options.requestsPerMinute) : 0,
+    });
+    logger.debug(
+      { provider: this.name, model: this.model, ...options },
+      "LLM rate limiter initialized",
+    );
+  }
+
+  generateText(prompt: string, options?: GenerateOptions): Promise<LLMResponse> {
+    return this.schedule(() => this.inner.generateText(prompt, options));
+  }
+
+  generateJSON<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    options?: GenerateOptions,
+  ): Promise<LLMJSONResponse<T>> {
+    return this.schedule(() => generateJSON(this.inner, prompt, spec, options));
+  }
+
+  private async schedule<R>(request: () => Promise<R>): Promise<R> {
+    const { timeoutMs } = this;
+    try {
+      // expiration は実行開始からの時間 (レート制限の待ち時間はタイムアウトに含めない)
+      return await this.limiter.schedule(timeoutMs ? { expiration: timeoutMs } : {}, request);
+    } catch (error) {
+      if (timeoutMs && error instanceof Bottleneck.BottleneckError) {
+        throw new LLMTimeoutError(this.name, timeoutMs);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { createChildLogger } from "../utils/logger.js";
+import type {
+  GenerateOptions,
+  JSONOutputSpec,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMUsage,
+} from "./types.js";
+
+const logger = createChildLogger("llm:structured");
+
+/**
+ * JSON Schema (構造化出力で使う範囲のみ)
+ */
+export interface JSONSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: string[];
+}
+
+/**
+ * 応答がスキーマに合わない場合のエラー
+ * 監査ログに残すため応答テキストとトークン使用量を保持する
+ */
+export class StructuredOutputError extends Error {
+  readonly text: string;
+  readonly usage: LLMUsage | undefined;
+
+  constructor(message: string, text: string, usage?: LLMUsage) {
+    super(message);
+    this.name = "StructuredOutputError";
+    this.text = text;
+    this.usage = usage;
+  }
+}
+
+/**
+ * zod スキーマを JSON Schema に変換
+ * オブジェクト・配列・文字列・数値・真偽値・列挙・省略可能のみ対応
+ */
+export function toJSONSchema(schema: z.ZodTypeAny): JSONSchema {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JSONSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = toJSONSchema(value);
+      if (!(value instanceof z.ZodOptional)) {
+        required.push(key);
+      }
+    }
+    return { type: "object", ...description, properties, required, additionalProperties: false };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", ...description, items: toJSONSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return { ...toJSONSchema(schema.unwrap()), ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", ...description, enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: "string", ...description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? "integer" : "number", ...description };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean", ...description };
+  }
+  throw new Error(`Unsupported schema type for structured output: ${schema.constructor.name}`);
+}
+
+/**
+ * 構造化出力の値をスキーマで検証
+ */
+export function parseStructured<T>(
+  spec: JSONOutputSpec<T>,
+  value: unknown,
+  text: string,
+  usage?: LLMUsage,
+): LLMJSONResponse<T> {
+  const result = spec.schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new StructuredOutputError(
+      `LLM response does not match ${spec.name}: ${issue ? `${issue.path.join(".")} ${issue.message}` : "invalid"}`,
+      text,
+      usage,
+    );
+  }
+  return { text, data: result.data, ...(usage ? { usage } : {}) };
+}
+
+/**
+ * JSON 文字列をパースしてスキーマで検証
+ */
+export function parseStructuredText<T>(
+  spec: JSONOutputSpec<T>,
+  text: string,
+  usage?: LLMUsage,
+): LLMJSONResponse<T> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new StructuredOutputError(`Failed to parse JSON: ${message}`, text, usage);
+  }
+  return parseStructured(spec, value, text, usage);
+}
+
+/**
+ * LLM の応答テキストから JSON 部分を抽出
+ * 不正なJSONを修正（末尾カンマ、改行内のエスケープ漏れなど）してから返す
+ */
+function extractJson(responseText: string): string | null {
+  // まずマークダウンのコードブロックを探す
+  const codeBlockMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
+  let jsonText = codeBlockMatch?.[1]?.trim() ?? null;
+  if (!jsonText) {
+    // コードブロックがなければ最初の { から最後の } までを抽出
+    const startIdx = responseText.indexOf("{");
+    const endIdx = responseText.lastIndexOf("}");
+    if (startIdx !== -1 && endIdx !== -1 && endIdx > startIdx) {
+      jsonText = responseText.slice(startIdx, endIdx + 1);
+    }
+  }
+
+  return (
+    jsonText
+      // 文字列内の改行をエスケープ
+      ?.replace(/:\s*"([^"]*)\n([^"]*)"/g, ': "$1\\n$2"')
+      // 末尾カンマを削除
+      .replace(/,(\s*[}\]])/g, "$1") ?? null
+  );
+}
+
+/**
+ * 構造化出力に対応していないプロバイダ向けに、テキスト生成の応答から JSON を抽出して検証
+ */
+export async function generateJSONFromText<T>(
+  provider: LLMProvider,
+  prompt: string,
+  spec: JSONOutputSpec<T>,
+  options?: GenerateOptions,
+): Promise<LLMJSONResponse<T>> {
+  const response = await provider.generateText(prompt, options);
+  const jsonText = extractJson(response.text);
+  if (!jsonText) {
+    logger.warn({ responseText: response.text.slice(0, 500) }, "No JSON found in LLM response");
+    throw new StructuredOutputError("No JSON found in response", response.text, response.usage);
+  }
+
+  try {
+    const parsed = parseStructuredText(spec, jsonText, response.usage);
+    return { ...parsed, text: response.text };
+  } catch (error) {
+    // 監査ログには抽出前の応答テキストを残す
+    if (error instanceof StructuredOutputError) {
+      throw new StructuredOutputError(error.message, response.text, response.usage);
+    }
+    throw error;
+  }
+}
+
+/**
+ * プロバイダの構造化出力で JSON を生成 (未対応の場合はテキストから抽出)
+ */
+export function generateJSON<T>(
+  provider: LLMProvider,
+  prompt: string,
+  spec: JSONOutputSpec<T>,
+  options?: GenerateOptions,
+): Promise<LLMJSONResponse<T>> {
+  if (provider.generateJSON) {
+    return provider.generateJSON(prompt, spec, options);
+  }
+  return generateJSONFromText(provider, prompt, spec, options);
+}
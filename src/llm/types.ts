@@ -1,3 +1,6 @@
+import type { z } from "zod";
+import type { RateLimitOptions } from "./rate-limit.js";
+
 /**
  * LLMプロバイダの共通インターフェース
  */
@@ -7,10 +10,70 @@ export interface LLMProvider {
    */
   readonly name: string;
 
+  /**
+   * モデル名
+   */
+  readonly model: string;
+
   /**
    * テキスト生成リクエスト
    */
-  generateText(prompt: string): Promise<string>;
+  generateText(prompt: string, options?: GenerateOptions): Promise<LLMResponse>;
+
+  /**
+   * JSON 生成リクエスト (各プロバイダの構造化出力を使用し、スキーマで検証)
+   * 未実装のプロバイダは generateJSONFromText() でテキストから抽出する
+   */
+  generateJSON?<T>(
+    prompt: string,
+    spec: JSONOutputSpec<T>,
+    options?: GenerateOptions,
+  ): Promise<LLMJSONResponse<T>>;
+}
+
+/**
+ * 構造化出力の定義
+ */
+export interface JSONOutputSpec<T> {
+  /** ツール名・スキーマ名 (英数字と _ のみ) */
+  name: string;
+  description: string;
+  schema: z.ZodType<T>;
+}
+
+/**
+ * JSON 生成の結果
+ */
+export interface LLMJSONResponse<T> extends LLMResponse {
+  /** スキーマで検証済みの値 */
+  data: T;
+}
+
+/**
+ * テキスト生成のオプション
+ */
+export interface GenerateOptions {
+  /** 出力トークン数の上限 (未指定時は各プロバイダの既定値) */
+  maxTokens?: number;
+}
+
+/**
+ * トークン使用量 (SDK が返す場合のみ)
+ */
+export interface LLMUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * テキスト生成の結果
+ */
+export interface LLMResponse {
+  text: string;
+  usage?: LLMUsage;
+  /** 実際に応答したプロバイダとモデル (フォールバック時のみ) */
+  provider?: string;
+  model?: string;
 }
 
 /**
@@ -21,4 +84,6 @@ export interface LLMProviderConfig {
   model: string;
   apiKey?: string | undefined;
   baseUrl?: string | undefined;
+  /** レート制限 (未指定は無制限) */
+  rateLimit?: RateLimitOptions | undefined;
 }
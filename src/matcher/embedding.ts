@@ -0,0 +1,162 @@
+import { createHash } from "node:crypto";
+import type { Config } from "../config/schema.js";
+import type { ConnpassEvent } from "../connpass/types.js";
+import type { EmbeddingProvider } from "../llm/embedding.js";
+import { stripHtml } from "../utils/html.js";
+import { createChildLogger } from "../utils/logger.js";
+
+const logger = createChildLogger("matcher:embedding");
+
+/** 埋め込みに使うテキストの最大文字数 (ローカルモデルのコンテキスト長に収める) */
+const MAX_TEXT_LENGTH = 2000;
+
+/** 1回のリクエストで埋め込むテキストの数 */
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * 埋め込みベクトルの保存先 (EmbeddingRepository が実装)
+ */
+export interface EmbeddingStore {
+  /** テキストのハッシュが一致しない場合は null */
+  get(key: string, model: string, contentHash: string): number[] | null;
+  save(key: string, model: string, contentHash: string, vector: number[]): void;
+}
+
+interface EmbeddingTarget {
+  /** 保存先のキー ("profile" または "event:<ID>") */
+  key: string;
+  text: string;
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * コサイン類似度 (-1〜1、どちらかがゼロベクトルなら 0)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function toEventTarget(event: ConnpassEvent): EmbeddingTarget {
+  const text = [event.title, event.catch ?? "", stripHtml(event.description)]
+    .filter(Boolean)
+    .join("\n");
+  return { key: `event:${event.id}`, text: text.slice(0, MAX_TEXT_LENGTH) };
+}
+
+/**
+ * 埋め込みベクトルの類似度による興味スコア
+ * interests.profile と embedding.liked_events のイベントを基準とし、最も近いものとの類似度をスコアにする
+ * 計算したベクトルは保存し、テキストが変わらない限り再計算しない
+ */
+export class EmbeddingMatcher {
+  private provider: EmbeddingProvider;
+  private store: EmbeddingStore | null;
+  private profile: string | undefined;
+  private minSimilarity: number;
+  private maxSimilarity: number;
+
+  constructor(config: Config, provider: EmbeddingProvider, store: EmbeddingStore | null = null) {
+    this.provider = provider;
+    this.store = store;
+    this.profile = config.interests.profile;
+    this.minSimilarity = config.embedding.min_similarity;
+    this.maxSimilarity = config.embedding.max_similarity;
+  }
+
+  /**
+   * イベントごとの類似度スコア (0-100) を計算
+   * 埋め込みサーバーに接続できない場合は警告を出して空の結果を返す (スキャンは続行する)
+   */
+  async scoreEvents(
+    events: ConnpassEvent[],
+    likedEvents: ConnpassEvent[],
+  ): Promise<Map<number, number>> {
+    const scores = new Map<number, number>();
+    const references: EmbeddingTarget[] = [
+      ...(this.profile ? [{ key: "profile", text: this.profile }] : []),
+      ...likedEvents.map(toEventTarget),
+    ];
+    if (references.length === 0) {
+      logger.warn("No interests.profile or embedding.liked_events, embedding score skipped");
+      return scores;
+    }
+    if (events.length === 0) {
+      return scores;
+    }
+
+    try {
+      const vectors = await this.embedAll([...references, ...events.map(toEventTarget)]);
+      const referenceVectors = vectors.slice(0, references.length);
+      for (const [index, event] of events.entries()) {
+        const vector = vectors[references.length + index] ?? [];
+        const similarity = Math.max(
+          ...referenceVectors.map((ref) => cosineSimilarity(ref, vector)),
+        );
+        scores.set(event.id, this.toScore(similarity));
+      }
+    } catch (error) {
+      logger.warn(
+        {
+          provider: this.provider.name,
+          model: this.provider.model,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Embedding failed, embedding score skipped",
+      );
+    }
+    return scores;
+  }
+
+  /**
+   * 類似度を min_similarity〜max_similarity の範囲で 0-100 に変換
+   */
+  private toScore(similarity: number): number {
+    const ratio = (similarity - this.minSimilarity) / (this.maxSimilarity - this.minSimilarity);
+    return Math.round(Math.min(1, Math.max(0, ratio)) * 100);
+  }
+
+  /**
+   * 保存済みのベクトルを使い、ないものだけ埋め込みサーバーで計算
+   */
+  private async embedAll(targets: EmbeddingTarget[]): Promise<number[][]> {
+    const { model } = this.provider;
+    const vectors: Array<number[] | null> = targets.map(
+      (target) => this.store?.get(target.key, model, hash(target.text)) ?? null,
+    );
+    const missing = targets.flatMap((_, index) => (vectors[index] ? [] : [index]));
+    logger.debug(
+      { total: targets.length, cached: targets.length - missing.length },
+      "Computing embeddings",
+    );
+
+    for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+      const chunk = missing.slice(i, i + EMBED_BATCH_SIZE);
+      const embedded = await this.provider.embed(chunk.map((index) => targets[index]?.text ?? ""));
+      for (const [j, index] of chunk.entries()) {
+        const target = targets[index];
+        const vector = embedded[j];
+        if (target && vector) {
+          vectors[index] = vector;
+          this.store?.save(target.key, model, hash(target.text), vector);
+        }
+      }
+    }
+    return vectors.map((vector) => vector ?? []);
+  }
+}
@@ -0,0 +1,72 @@
+import type { Config } from "../config/schema.js";
+import type { ConnpassEvent } from "../connpass/types.js";
+import type { KeywordMatch, KeywordScorer } from "./keyword.js";
+
+/**
+ * イベントへの評価
+ */
+export type FeedbackLabel = "like" | "dislike";
+
+/**
+ * 評価済みのイベント (新しい順)
+ */
+export interface LabelledEvent {
+  label: FeedbackLabel;
+  note: string | null;
+  event: ConnpassEvent;
+}
+
+/**
+ * LLM のプロンプトに含める過去の評価 (few-shot の例)
+ */
+export function formatFeedbackExamples(examples: LabelledEvent[]): string {
+  return examples
+    .map(({ label, note, event }) => {
+      const verdict = label === "like" ? "興味あり" : "興味なし";
+      const group = event.group?.title ? `（${event.group.title}）` : "";
+      const memo = note ? ` メモ: ${note}` : "";
+      return `- ${verdict}: ${event.title}${group}${memo}`;
+    })
+    .join("\n");
+}
+
+/**
+ * 評価からグループ・キーワードごとの興味スコアの補正を計算
+ * 高評価 − 低評価の件数 × feedback.group_points / keyword_points を合計し、±max_adjustment に収める
+ */
+export class FeedbackPriors {
+  private groups = new Map<number, number>();
+  private keywords = new Map<string, number>();
+  private settings: Config["feedback"];
+
+  constructor(
+    labelled: LabelledEvent[],
+    keywordScorer: KeywordScorer,
+    settings: Config["feedback"],
+  ) {
+    this.settings = settings;
+    for (const { label, event } of labelled) {
+      const sign = label === "like" ? 1 : -1;
+      if (event.group) {
+        this.groups.set(event.group.id, (this.groups.get(event.group.id) ?? 0) + sign);
+      }
+      for (const keyword of keywordScorer.score(event).matches) {
+        this.keywords.set(keyword, (this.keywords.get(keyword) ?? 0) + sign);
+      }
+    }
+  }
+
+  /**
+   * イベントの興味スコアの補正値
+   */
+  adjustment(event: ConnpassEvent, match: KeywordMatch): number {
+    const { group_points, keyword_points, max_adjustment } = this.settings;
+    const groupNet = event.group ? (this.groups.get(event.group.id) ?? 0) : 0;
+    const keywordNet = match.matches.reduce(
+      (sum, keyword) => sum + (this.keywords.get(keyword) ?? 0),
+      0,
+    );
+    const total = groupNet * group_points + keywordNet * keyword_points;
+    return Math.round(Math.min(max_adjustment, Math.max(-max_adjustment, total)));
+  }
+}
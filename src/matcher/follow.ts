@@ -0,0 +1,67 @@
+import type { Config } from "../config/schema.js";
+import type { ConnpassEvent } from "../connpass/types.js";
+
+type GroupOrOwnerRef = number | string;
+
+/**
+ * URL を比較用に正規化 (スキーム・末尾のスラッシュを除去して小文字化)
+ */
+function normalizeUrl(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * グループの指定 (ID, URL, サブドメイン) にマッチするか
+ */
+function matchesGroup(group: ConnpassEvent["group"], ref: GroupOrOwnerRef): boolean {
+  if (!group) {
+    return false;
+  }
+  if (typeof ref === "number" || /^\d+$/.test(ref.trim())) {
+    return group.id === Number(ref);
+  }
+
+  const groupUrl = normalizeUrl(group.url);
+  const target = normalizeUrl(ref);
+  // "." を含まない指定はサブドメインとして扱う (例: "jawsug" → jawsug.connpass.com)
+  return target.includes(".") ? groupUrl === target : groupUrl.split(".")[0] === target;
+}
+
+/**
+ * 主催者の指定 (ニックネームまたはID) にマッチするか
+ */
+function matchesOwner(event: ConnpassEvent, ref: GroupOrOwnerRef): boolean {
+  if (typeof ref === "number") {
+    return event.owner_id === ref;
+  }
+  return event.owner_nickname.toLowerCase() === ref.trim().toLowerCase();
+}
+
+function matchesAny(
+  event: ConnpassEvent,
+  groups: GroupOrOwnerRef[],
+  owners: GroupOrOwnerRef[],
+): boolean {
+  return (
+    groups.some((ref) => matchesGroup(event.group, ref)) ||
+    owners.some((ref) => matchesOwner(event, ref))
+  );
+}
+
+/**
+ * フォロー中のグループ・主催者のイベントか
+ */
+export function isFollowed(event: ConnpassEvent, interests: Config["interests"]): boolean {
+  return matchesAny(event, interests.follow_groups, interests.follow_owners);
+}
+
+/**
+ * ブロック中のグループ・主催者のイベントか
+ */
+export function isBlocked(event: ConnpassEvent, interests: Config["interests"]): boolean {
+  return matchesAny(event, interests.block_groups, interests.block_owners);
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { configSchema } from "../config/schema.js";
+import type { ConnpassEvent, InterestMatch } from "../connpass/types.js";
+import { KeywordScorer } from "./keyword.js";
+
+function createScorer(interests: Record<string, unknown>): KeywordScorer {
+  const config = configSchema.parse({ connpass: { api_key: "test" }, interests });
+  return new KeywordScorer(config.interests);
+}
+
+/**
+ * 採点に使う項目 (タイトル・キャッチ・説明文・参加者数) だけを指定したイベント
+ */
+function listing(
+  fields: Partial<Pick<ConnpassEvent, "title" | "catch" | "description" | "accepted">>,
+): ConnpassEvent {
+  return { title: "", catch: "", description: "", accepted: 0, ...fields } as ConnpassEvent;
+}
+
+const llmMatch: InterestMatch = { is_match: false, score: 40, keyword_matches: [] };
+
+describe("KeywordScorer.score", () => {
+  it("最初にマッチした欄の点数を加算", () => {
+    const scorer = createScorer({ keywords: ["TypeScript", "Rust", "Go"] });
+    const event = listing({
+      title: "TypeScript 勉強会",
+      catch: "Rust も扱います",
+      description: "<p>TypeScript と Go</p>",
+    });
+    expect(scorer.score(event)).toEqual({ score: 60, matches: ["TypeScript", "Rust", "Go"] });
+  });
+
+  it("英数字のキーワードは単語境界で照合", () => {
+    const scorer = createScorer({ keywords: ["go"] });
+    expect(scorer.score(listing({ title: "Google I/O 報告会" })).matches).toEqual([]);
+    expect(scorer.score(listing({ title: "Go Conference" })).matches).toEqual(["go"]);
+  });
+
+  it("全角・大文字の表記ゆれを吸収", () => {
+    const scorer = createScorer({ keywords: ["typescript"] });
+    expect(scorer.score(listing({ title: "ＴｙｐｅＳｃｒｉｐｔ入門" })).score).toBe(30);
+  });
+
+  it("別表記・正規表現と重み", () => {
+    const scorer = createScorer({
+      keywords: [
+        { name: "Kubernetes", synonyms: ["k8s"], weight: 2 },
+        { name: "LLM", patterns: ["大規模言語モデル|生成AI"] },
+      ],
+    });
+    const event = listing({ title: "k8s 入門", catch: "生成AIの活用" });
+    expect(scorer.score(event)).toEqual({ score: 80, matches: ["Kubernetes", "LLM"] });
+  });
+
+  it("スコアは100まで", () => {
+    const scorer = createScorer({ keywords: ["a1", "b2", "c3", "d4"] });
+    expect(scorer.score(listing({ title: "a1 b2 c3 d4" })).score).toBe(100);
+  });
+});
+
+describe("KeywordScorer.shouldSkipLLM", () => {
+  it("キーワードがマッチせず参加者が少なければ省略", () => {
+    const scorer = createScorer({
+      keywords: ["Rust"],
+      keyword_scoring: { skip_llm_without_hits: true, skip_llm_max_participants: 10 },
+    });
+    const event = listing({ title: "Python 勉強会", accepted: 5 });
+    expect(scorer.shouldSkipLLM(event, scorer.score(event))).toBe(true);
+
+    const popular = listing({ title: "Python 勉強会", accepted: 11 });
+    expect(scorer.shouldSkipLLM(popular, scorer.score(popular))).toBe(false);
+  });
+
+  it("設定が無効なら省略しない", () => {
+    const scorer = createScorer({ keywords: ["Rust"] });
+    const event = listing({ title: "Python 勉強会" });
+    expect(scorer.shouldSkipLLM(event, scorer.score(event))).toBe(false);
+  });
+});
+
+describe("KeywordScorer.combine", () => {
+  const keywordMatch = { score: 60, matches: ["Rust"] };
+
+  it("llm では LLM のスコアに補正のみ加える", () => {
+    const scorer = createScorer({ keywords: ["Rust"] });
+    expect(scorer.combine(llmMatch, keywordMatch, 10)).toEqual({
+      is_match: false,
+      score: 50,
+      keyword_matches: ["Rust"],
+      feedback_adjustment: 10,
+    });
+  });
+
+  it("max では高い方のスコアで判定", () => {
+    const scorer = createScorer({ keywords: ["Rust"], keyword_scoring: { combine: "max" } });
+    const result = scorer.combine(llmMatch, keywordMatch);
+    expect(result.score).toBe(60);
+    expect(result.is_match).toBe(true);
+  });
+
+  it("weighted では加重平均で判定", () => {
+    const scorer = createScorer({
+      keywords: ["Rust"],
+      keyword_scoring: { combine: "weighted", keyword_weight: 0.5 },
+    });
+    const result = scorer.combine(llmMatch, keywordMatch, -10);
+    expect(result.score).toBe(40);
+    expect(result.is_match).toBe(false);
+  });
+});
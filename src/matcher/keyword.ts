@@ -0,0 +1,130 @@
+import type { Config } from "../config/schema.js";
+import type { ConnpassEvent, InterestMatch } from "../connpass/types.js";
+import { stripHtml } from "../utils/html.js";
+import { createTermMatcher, normalizeText } from "../utils/text.js";
+
+type KeywordScoring = Config["interests"]["keyword_scoring"];
+
+/**
+ * キーワードによる興味スコア
+ */
+export interface KeywordMatch {
+  /** スコア (0-100) */
+  score: number;
+  /** マッチしたキーワード (設定の name) */
+  matches: string[];
+}
+
+interface CompiledKeyword {
+  name: string;
+  weight: number;
+  match: (text: string) => boolean;
+}
+
+function clampScore(score: number): number {
+  return Math.min(100, Math.max(0, score));
+}
+
+function compileKeyword(keyword: Config["interests"]["keywords"][number]): CompiledKeyword {
+  if (typeof keyword === "string") {
+    return { name: keyword, weight: 1, match: createTermMatcher(keyword) };
+  }
+  const matchers = [
+    ...[keyword.name, ...keyword.synonyms].map(createTermMatcher),
+    ...keyword.patterns.map((pattern) => {
+      const regex = new RegExp(pattern.normalize("NFKC"), "iu");
+      return (text: string) => regex.test(text);
+    }),
+  ];
+  return {
+    name: keyword.name,
+    weight: keyword.weight,
+    match: (text) => matchers.some((match) => match(text)),
+  };
+}
+
+/**
+ * interests.keywords によるローカルの興味スコア判定
+ * キーワードごとにタイトル > キャッチ > 説明文の順で最初にマッチした欄の点数 × 重みを加算する
+ */
+export class KeywordScorer {
+  private keywords: CompiledKeyword[];
+  private scoring: KeywordScoring;
+
+  constructor(interests: Config["interests"]) {
+    this.keywords = interests.keywords.map(compileKeyword);
+    this.scoring = interests.keyword_scoring;
+  }
+
+  /**
+   * キーワードが設定されているか
+   */
+  get enabled(): boolean {
+    return this.keywords.length > 0;
+  }
+
+  score(event: ConnpassEvent): KeywordMatch {
+    const fields: Array<[string, number]> = [
+      [normalizeText(event.title), this.scoring.title_points],
+      [normalizeText(event.catch ?? ""), this.scoring.catch_points],
+      [normalizeText(stripHtml(event.description)), this.scoring.description_points],
+    ];
+
+    let total = 0;
+    const matches: string[] = [];
+    for (const keyword of this.keywords) {
+      const field = fields.find(([text]) => keyword.match(text));
+      if (field) {
+        total += field[1] * keyword.weight;
+        matches.push(keyword.name);
+      }
+    }
+    return { score: Math.min(100, Math.round(total)), matches };
+  }
+
+  /**
+   * キーワードがマッチせず参加者も少ないため LLM の判定を省略するか
+   */
+  shouldSkipLLM(event: ConnpassEvent, match: KeywordMatch): boolean {
+    return (
+      this.enabled &&
+      this.scoring.skip_llm_without_hits &&
+      match.matches.length === 0 &&
+      event.accepted <= this.scoring.skip_llm_max_participants
+    );
+  }
+
+  /**
+   * LLM の判定とキーワードのスコアを keyword_scoring.combine に従って組み合わせる
+   * - llm: LLM のスコアと判定をそのまま使う
+   * - max: 高い方のスコアを使い、match_threshold 以上ならマッチ
+   * - weighted: keyword_weight で加重平均し、match_threshold 以上ならマッチ
+   * @param adjustment 評価によるスコアの補正 (max / weighted では補正後のスコアで判定)
+   */
+  combine(interest: InterestMatch, match: KeywordMatch, adjustment = 0): InterestMatch {
+    const { combine, keyword_weight, match_threshold } = this.scoring;
+    const keywordMatches = [...interest.keyword_matches, ...match.matches];
+    const feedback = adjustment !== 0 ? { feedback_adjustment: adjustment } : {};
+    if (combine === "llm" || !this.enabled) {
+      return {
+        ...interest,
+        score: clampScore(interest.score + adjustment),
+        keyword_matches: keywordMatches,
+        ...feedback,
+      };
+    }
+
+    const combined =
+      combine === "max"
+        ? Math.max(interest.score, match.score)
+        : Math.round(interest.score * (1 - keyword_weight) + match.score * keyword_weight);
+    const score = clampScore(combined + adjustment);
+    return {
+      ...interest,
+      is_match: score >= match_threshold,
+      score,
+      keyword_matches: keywordMatches,
+      ...feedback,
+    };
+  }
+}
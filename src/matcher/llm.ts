@@ -1,19 +1,160 @@
-import type { Config } from "../config/schema.js";
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import type { Config, LLMProviderEntry } from "../config/schema.js";
 import type { ConnpassEvent, InterestMatch, SpeakerOpportunity } from "../connpass/types.js";
-import { createLLMProvider, getDefaultModel } from "../llm/factory.js";
-import type { LLMProvider } from "../llm/types.js";
+import { CassetteLLMProvider } from "../llm/cassette.js";
+import { type CostSummary, CostTracker } from "../llm/cost.js";
+import { createLLMProvider, getDefaultModel, getDefaultRequestsPerMinute } from "../llm/factory.js";
+import { StructuredOutputError, generateJSON } from "../llm/structured.js";
+import type { JSONOutputSpec, LLMProvider, LLMProviderConfig, LLMResponse } from "../llm/types.js";
+import type { Cassette } from "../utils/cassette.js";
+import { stripHtml } from "../utils/html.js";
 import { createChildLogger } from "../utils/logger.js";
+import { type LabelledEvent, formatFeedbackExamples } from "./feedback.js";
 
 const logger = createChildLogger("matcher:llm");
 
+const DEFAULT_PROFILE = "技術イベントに興味があるエンジニア";
+
+/** プロンプトの内容を変更したら上げる (キャッシュを無効化するため) */
+const PROMPT_VERSION = 3;
+
+/** バッチ分析で1イベントあたりに確保する出力トークン数 (最低でも単体分析と同じ 1024) */
+const BATCH_OUTPUT_TOKENS_PER_EVENT = 300;
+const MIN_OUTPUT_TOKENS = 1024;
+
+/**
+ * プロンプトに含めるイベント情報
+ * 参加者数など判定に関係しない項目は含めない (更新のたびにキャッシュが無効になるため)
+ */
+interface PromptFields {
+  title: string;
+  catch: string;
+  description: string;
+  place: string | null;
+  startedAt: string;
+}
+
+function toPromptFields(event: ConnpassEvent): PromptFields {
+  return {
+    title: event.title,
+    catch: event.catch,
+    description: stripHtml(event.description).slice(0, 3000),
+    place: event.place,
+    startedAt: event.started_at,
+  };
+}
+
+/**
+ * SHA-256 の先頭16文字
+ */
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * トークン数の概算 (ASCII は4文字で1トークン、それ以外は1文字1トークンとみなす)
+ */
+function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 4) + other;
+}
+
+function formatEventInfo(fields: PromptFields): string {
+  return `タイトル: ${fields.title}
+キャッチ: ${fields.catch}
+概要: ${fields.description}
+開催場所: ${fields.place ?? "未定"}
+開催日時: ${fields.startedAt}`;
+}
+
+/** 分析タスクと判定基準 (単体・バッチ共通) */
+const ANALYSIS_INSTRUCTIONS = `## 分析タスク
+1. **興味マッチング**: このイベントがユーザーの興味に合うか判定
+2. **登壇機会検出**: このイベントで発表・LT・登壇する機会があるか判定
+
+## 登壇機会の判定基準
+- LT（ライトニングトーク）枠の募集があるか
+- スピーカー・発表者の公募があるか
+- CFP（Call for Proposals）があるか
+- 注意: 「参加者募集」「イベント参加応募」は登壇機会ではない`;
+
+/** 1イベント分の出力形式 (単体・バッチ共通) */
+const RESULT_FORMAT = `"interest": {
+    "is_match": true/false,
+    "score": 0-100,
+    "reason": "判定理由"
+  },
+  "speaker": {
+    "has_opportunity": true/false,
+    "has_lt_slot": true/false,
+    "has_cfp": true/false,
+    "reason": "判定理由（登壇機会がない場合は空文字）"
+  }`;
+
 /**
- * HTMLタグを除去
+ * ユーザープロファイルと過去の評価 (評価がない場合はプロファイルのみ)
  */
-function stripHtml(html: string): string {
-  return html
-    .replace(/<[^>]*>/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
+function formatUserContext(profile: string, examples: string): string {
+  if (!examples) {
+    return profile;
+  }
+  return `${profile}
+
+## ユーザーの過去の評価（判定の参考にする）
+${examples}`;
+}
+
+function buildPrompt(profile: string, examples: string, fields: PromptFields): string {
+  return `あなたはイベント分析システムです。以下のイベントを分析してください。
+
+## ユーザープロファイル
+${formatUserContext(profile, examples)}
+
+## イベント情報
+${formatEventInfo(fields)}
+
+${ANALYSIS_INSTRUCTIONS}
+
+## 出力形式（JSON）
+{
+  ${RESULT_FORMAT}
+}`;
+}
+
+function formatBatchEvent(eventId: number, fields: PromptFields): string {
+  return `### イベントID: ${eventId}
+${formatEventInfo(fields)}`;
+}
+
+function buildBatchPrompt(profile: string, examples: string, sections: string[]): string {
+  return `あなたはイベント分析システムです。以下の${sections.length}件のイベントをそれぞれ分析してください。
+
+## ユーザープロファイル
+${formatUserContext(profile, examples)}
+
+## イベント一覧
+${sections.join("\n\n")}
+
+${ANALYSIS_INSTRUCTIONS}
+
+## 出力形式（JSON、results には各イベントにつき1要素）
+{
+  "results": [
+    {
+      "event_id": イベントID,
+      ${RESULT_FORMAT.replaceAll("\n", "\n    ")}
+    }
+  ]
+}`;
 }
 
 /**
@@ -22,6 +163,178 @@ function stripHtml(html: string): string {
 export interface LLMAnalysisResult {
   interest: InterestMatch;
   speaker: SpeakerOpportunity;
+  /** LLM 呼び出しの記録 (LLM 無効時・キャッシュ使用時は undefined) */
+  decision?: LLMDecision;
+}
+
+/**
+ * 複数イベントの分析結果
+ */
+export interface BatchAnalysisResult {
+  /** イベントIDごとの分析結果 (持ち越したイベント以外のすべてのイベントを含む) */
+  results: Map<number, LLMAnalysisResult>;
+  /** 費用・呼び出し回数の上限に達したため分析しなかったイベントのID */
+  deferred: number[];
+  /** LLM の呼び出し回数・トークン数・費用 */
+  cost: CostSummary;
+}
+
+/**
+ * キャッシュする分析結果
+ */
+export type CachedAnalysis = Pick<LLMAnalysisResult, "interest" | "speaker">;
+
+export interface AnalysisCacheKey {
+  /** プロンプトに含めるイベント情報のハッシュ */
+  contentHash: string;
+  /** プロファイル・過去の評価・プロバイダ・モデル・プロンプトのバージョンのハッシュ */
+  contextHash: string;
+}
+
+/**
+ * 分析結果のキャッシュ (AnalysisCacheRepository が実装)
+ */
+export interface AnalysisCache {
+  get(eventId: number, key: AnalysisCacheKey): CachedAnalysis | null;
+  save(eventId: number, key: AnalysisCacheKey, analysis: CachedAnalysis): void;
+}
+
+/**
+ * LLM 呼び出しの記録先 (LLMDecisionRepository が実装)
+ */
+export interface DecisionRecorder {
+  record(eventId: number, decision: LLMDecision): void;
+}
+
+/**
+ * LLM が返す JSON のスキーマ (構造化出力の指定と応答の検証に使う)
+ * 構造化出力の strict モードに合わせて、すべての項目を必須にする
+ */
+const analysisResultSchema = z.object({
+  interest: z.object({
+    is_match: z.boolean(),
+    score: z.number().min(0).max(100),
+    reason: z.string(),
+  }),
+  speaker: z.object({
+    has_opportunity: z.boolean(),
+    has_lt_slot: z.boolean(),
+    has_cfp: z.boolean(),
+    reason: z.string().describe("登壇機会がない場合は空文字"),
+  }),
+});
+
+const batchAnalysisSchema = z.object({
+  results: z.array(analysisResultSchema.extend({ event_id: z.number().int() })),
+});
+
+const analysisSpec: JSONOutputSpec<RawAnalysisResult> = {
+  name: "event_analysis",
+  description: "イベントの興味マッチングと登壇機会の判定結果",
+  schema: analysisResultSchema,
+};
+
+const batchAnalysisSpec: JSONOutputSpec<z.infer<typeof batchAnalysisSchema>> = {
+  name: "event_batch_analysis",
+  description: "複数イベントの興味マッチングと登壇機会の判定結果",
+  schema: batchAnalysisSchema,
+};
+
+/**
+ * LLM が返す JSON
+ */
+export type RawAnalysisResult = z.infer<typeof analysisResultSchema>;
+
+/**
+ * LLM 呼び出し1回分の監査情報
+ */
+export interface LLMDecision {
+  provider: string;
+  model: string;
+  /** プロンプトの SHA-256 (先頭16文字) */
+  promptHash: string;
+  /** 応答テキスト (API エラー時は null) */
+  rawResponse: string | null;
+  parsedResult: RawAnalysisResult | null;
+  latencyMs: number;
+  /** トークン数 (バッチの場合はバッチ全体) */
+  inputTokens: number | null;
+  outputTokens: number | null;
+  /** 1回の呼び出しで分析したイベント数 */
+  batchSize: number;
+  /** API エラー・パースエラーの内容 (成功時は null) */
+  error: string | null;
+}
+
+/**
+ * 分析待ちのイベント
+ */
+interface PendingAnalysis {
+  event: ConnpassEvent;
+  key: AnalysisCacheKey;
+  /** バッチプロンプトに含めるイベント情報 */
+  section: string;
+}
+
+/**
+ * 構造化出力のエラーであれば、監査ログ用に応答テキストとトークン使用量を取り出す
+ */
+function toFailedResponse(error: unknown): LLMResponse | null {
+  if (!(error instanceof StructuredOutputError)) {
+    return null;
+  }
+  return { text: error.text, ...(error.usage ? { usage: error.usage } : {}) };
+}
+
+function toAnalysis(result: RawAnalysisResult): CachedAnalysis {
+  return {
+    interest: {
+      is_match: result.interest.is_match,
+      score: result.interest.score,
+      keyword_matches: [],
+      llm_reason: result.interest.reason,
+    },
+    speaker: {
+      has_opportunity: result.speaker.has_opportunity,
+      has_lt_slot: result.speaker.has_lt_slot,
+      has_cfp: result.speaker.has_cfp,
+      detected_keywords: result.speaker.reason ? [result.speaker.reason] : [],
+    },
+  };
+}
+
+function toProviderConfig(
+  entry: LLMProviderEntry,
+  defaultRateLimit: Config["llm"]["rate_limit"],
+): LLMProviderConfig {
+  const rateLimit = entry.rate_limit ?? defaultRateLimit;
+  return {
+    provider: entry.provider,
+    model: entry.model ?? getDefaultModel(entry.provider),
+    apiKey: entry.api_key,
+    baseUrl: entry.base_url,
+    rateLimit: {
+      requestsPerMinute:
+        rateLimit.requests_per_minute ?? getDefaultRequestsPerMinute(entry.provider),
+      maxConcurrent: rateLimit.max_concurrent,
+    },
+  };
+}
+
+function createDefaultResult(): LLMAnalysisResult {
+  return {
+    interest: {
+      is_match: false,
+      score: 0,
+      keyword_matches: [],
+    },
+    speaker: {
+      has_opportunity: false,
+      has_lt_slot: false,
+      has_cfp: false,
+      detected_keywords: [],
+    },
+  };
 }
 
 /**
@@ -30,164 +343,238 @@ export interface LLMAnalysisResult {
 export class LLMMatcher {
   private provider: LLMProvider;
   private config: Config;
+  private cache: AnalysisCache | null;
+  private recorder: DecisionRecorder | null;
+  private profile: string;
+  /** プロンプトに含める過去の評価 (評価がない場合は空文字) */
+  private examples: string;
 
-  constructor(config: Config) {
+  constructor(
+    config: Config,
+    options: {
+      cassette?: Cassette | null;
+      cache?: AnalysisCache | null;
+      recorder?: DecisionRecorder | null;
+      /** プロンプトに例として含める評価済みのイベント (新しい順) */
+      examples?: LabelledEvent[];
+    } = {},
+  ) {
     this.config = config;
+    this.cache = options.cache ?? null;
+    this.recorder = options.recorder ?? null;
+    this.profile = config.interests.profile ?? DEFAULT_PROFILE;
+    this.examples = formatFeedbackExamples(options.examples ?? []);
 
-    // プロバイダを作成
+    // プロバイダを作成 (複数指定時はフォールバック付き、カセット指定時は記録・再生用のプロバイダでラップ)
     const llmConfig = config.llm;
-    this.provider = createLLMProvider({
-      provider: llmConfig.provider,
-      model: llmConfig.model ?? getDefaultModel(llmConfig.provider),
-      apiKey: llmConfig.api_key,
-      baseUrl: llmConfig.base_url,
-    });
+    const providerConfigs = (llmConfig.providers ?? [llmConfig]).map((entry) =>
+      toProviderConfig(entry, llmConfig.rate_limit),
+    );
+    const fallback = {
+      timeoutMs: llmConfig.fallback.timeout_ms,
+      cooldownMs: llmConfig.fallback.cooldown_ms,
+    };
+    this.provider = options.cassette
+      ? new CassetteLLMProvider(options.cassette, providerConfigs, fallback)
+      : createLLMProvider(providerConfigs, fallback);
   }
 
   /**
-   * イベントを分析（興味マッチング + 登壇機会検出）
+   * 分析結果のキャッシュキーを取得
+   * プロンプトに含めるイベント情報と、プロファイル・過去の評価・モデルのいずれかが変われば別のキーになる
    */
-  async analyzeEvent(event: ConnpassEvent): Promise<LLMAnalysisResult> {
-    const defaultResult: LLMAnalysisResult = {
-      interest: {
-        is_match: false,
-        score: 0,
-        keyword_matches: [],
-      },
-      speaker: {
-        has_opportunity: false,
-        has_lt_slot: false,
-        has_cfp: false,
-        detected_keywords: [],
-      },
+  getCacheKey(event: ConnpassEvent): AnalysisCacheKey {
+    return {
+      contentHash: hash(JSON.stringify(toPromptFields(event))),
+      contextHash: hash(
+        JSON.stringify([
+          PROMPT_VERSION,
+          this.profile,
+          this.provider.name,
+          this.provider.model,
+          // 評価がない場合は従来と同じキー
+          ...(this.examples ? [this.examples] : []),
+        ]),
+      ),
     };
+  }
 
+  /**
+   * イベントを分析（興味マッチング + 登壇機会検出）
+   * キャッシュと一致した場合は LLM を呼び出さない (decision は undefined)
+   */
+  async analyzeEvent(event: ConnpassEvent): Promise<LLMAnalysisResult> {
     if (!this.config.llm.enabled) {
       logger.debug({ eventId: event.id }, "LLM disabled");
-      return defaultResult;
+      return createDefaultResult();
     }
 
-    const profile = this.config.interests.profile ?? "技術イベントに興味があるエンジニア";
-    const description = stripHtml(event.description).slice(0, 3000);
-
-    const prompt = `あなたはイベント分析システムです。以下のイベントを分析してください。
+    const key = this.getCacheKey(event);
+    const cached = this.cache?.get(event.id, key);
+    if (cached) {
+      logger.debug({ eventId: event.id }, "LLM analysis reused from cache");
+      return cached;
+    }
 
-## ユーザープロファイル
-${profile}
+    return this.analyzeSingle(event, key);
+  }
 
-## イベント情報
-タイトル: ${event.title}
-キャッチ: ${event.catch}
-概要: ${description}
-開催場所: ${event.place ?? "未定"}
-開催日時: ${event.started_at}
-参加者数: ${event.accepted}人
-
-## 分析タスク
-1. **興味マッチング**: このイベントがユーザーの興味に合うか判定
-2. **登壇機会検出**: このイベントで発表・LT・登壇する機会があるか判定
+  /**
+   * 複数のイベントを分析
+   * llm.batch_size 件ずつ (llm.batch_max_tokens の範囲で) 1つのプロンプトにまとめ、
+   * 応答に含まれなかった・不正だったイベントは1件ずつ分析し直す
+   * llm.max_cost_per_scan / llm.max_calls_per_scan に達した後のイベントは分析せずに deferred に入れる
+   * (並行して分析中の呼び出しの分だけ上限を超えることがある)
+   */
+  async analyzeEvents(events: ConnpassEvent[]): Promise<BatchAnalysisResult> {
+    const { prices, max_cost_per_scan, max_calls_per_scan } = this.config.llm;
+    const tracker = new CostTracker(prices, {
+      maxCostUsd: max_cost_per_scan,
+      maxCalls: max_calls_per_scan,
+    });
+    const results = new Map<number, LLMAnalysisResult>();
+    const deferred: number[] = [];
+    if (!this.config.llm.enabled) {
+      logger.debug({ count: events.length }, "LLM disabled");
+      for (const event of events) {
+        results.set(event.id, createDefaultResult());
+      }
+      return { results, deferred, cost: tracker.getSummary() };
+    }
 
-## 登壇機会の判定基準
-- LT（ライトニングトーク）枠の募集があるか
-- スピーカー・発表者の公募があるか
-- CFP（Call for Proposals）があるか
-- 注意: 「参加者募集」「イベント参加応募」は登壇機会ではない
+    // llm.rate_limit.max_concurrent 件のバッチを並行して分析
+    const batches = this.toBatches(this.takeCached(events, results));
+    const worker = async () => {
+      for (let batch = batches.shift(); batch; batch = batches.shift()) {
+        deferred.push(...(await this.analyzePending(batch, results, tracker)));
+      }
+    };
+    const concurrency = Math.min(this.config.llm.rate_limit.max_concurrent, batches.length);
+    await Promise.all(Array.from({ length: concurrency }, worker));
 
-## 出力形式（JSON）
-{
-  "interest": {
-    "is_match": true/false,
-    "score": 0-100,
-    "reason": "判定理由"
-  },
-  "speaker": {
-    "has_opportunity": true/false,
-    "has_lt_slot": true/false,
-    "has_cfp": true/false,
-    "reason": "判定理由（登壇機会がある場合のみ）"
+    const cost = tracker.getSummary();
+    if (deferred.length > 0) {
+      logger.warn(
+        { deferred: deferred.length, calls: cost.calls, costUsd: cost.costUsd },
+        "LLM budget for this scan exhausted, deferring remaining events",
+      );
+    }
+    return { results, deferred, cost };
   }
-}`;
-
-    try {
-      const responseText = await this.provider.generateText(prompt);
 
-      // JSONを抽出（マークダウンコードブロック対応）
-      let jsonText: string | null = null;
+  /**
+   * キャッシュ済みの分析結果を results に入れ、残りを分析待ちとして返す
+   */
+  private takeCached(
+    events: ConnpassEvent[],
+    results: Map<number, LLMAnalysisResult>,
+  ): PendingAnalysis[] {
+    const pending: PendingAnalysis[] = [];
+    for (const event of events) {
+      const key = this.getCacheKey(event);
+      const cached = this.cache?.get(event.id, key);
+      if (cached) {
+        logger.debug({ eventId: event.id }, "LLM analysis reused from cache");
+        results.set(event.id, cached);
+        continue;
+      }
+      pending.push({ event, key, section: formatBatchEvent(event.id, toPromptFields(event)) });
+    }
+    return pending;
+  }
 
-      // まずマークダウンのコードブロックを探す
-      const codeBlockMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (codeBlockMatch?.[1]) {
-        jsonText = codeBlockMatch[1].trim();
+  /**
+   * 1バッチ分のイベントを分析して results に入れる
+   * 2件以上ならまとめて分析し、得られなかったイベントは1件ずつ分析し直す
+   * @returns 費用・回数の上限に達したため分析しなかったイベントのID
+   */
+  private async analyzePending(
+    batch: PendingAnalysis[],
+    results: Map<number, LLMAnalysisResult>,
+    tracker: CostTracker,
+  ): Promise<number[]> {
+    const deferred: number[] = [];
+    let batchResults = new Map<number, LLMAnalysisResult>();
+    if (batch.length > 1 && !tracker.isExhausted()) {
+      batchResults = await this.analyzeBatch(batch, tracker);
+    }
+    for (const { event, key } of batch) {
+      const result = batchResults.get(event.id);
+      if (result) {
+        results.set(event.id, result);
+      } else if (tracker.isExhausted()) {
+        deferred.push(event.id);
       } else {
-        // コードブロックがなければ最初の { から最後の } までを抽出
-        const startIdx = responseText.indexOf("{");
-        const endIdx = responseText.lastIndexOf("}");
-        if (startIdx !== -1 && endIdx !== -1 && endIdx > startIdx) {
-          jsonText = responseText.slice(startIdx, endIdx + 1);
-        }
+        results.set(event.id, await this.analyzeSingle(event, key, tracker));
       }
+    }
+    return deferred;
+  }
 
-      if (!jsonText) {
-        logger.warn({ responseText: responseText.slice(0, 500) }, "No JSON found in LLM response");
-        throw new Error("No JSON found in response");
-      }
+  /**
+   * 分析待ちのイベントをバッチに分割 (件数とプロンプトのトークン数の上限)
+   */
+  private toBatches(pending: PendingAnalysis[]): PendingAnalysis[][] {
+    const { batch_size, batch_max_tokens } = this.config.llm;
+    const batches: PendingAnalysis[][] = [];
+    let current: PendingAnalysis[] = [];
+    let tokens = 0;
 
-      // 不正なJSONを修正（末尾カンマ、改行内のエスケープ漏れなど）
-      const cleanedJson = jsonText
-        // 文字列内の改行をエスケープ
-        .replace(/:\s*"([^"]*)\n([^"]*)"/g, ': "$1\\n$2"')
-        // 末尾カンマを削除
-        .replace(/,(\s*[}\]])/g, "$1");
-
-      let result: {
-        interest: {
-          is_match: boolean;
-          score: number;
-          reason: string;
-        };
-        speaker: {
-          has_opportunity: boolean;
-          has_lt_slot: boolean;
-          has_cfp: boolean;
-          reason?: string;
-        };
-      };
-
-      try {
-        result = JSON.parse(cleanedJson);
-      } catch (parseError) {
-        // JSONパースに失敗した場合、生のJSONをログに出力
-        const errMsg = parseError instanceof Error ? parseError.message : String(parseError);
-        logger.error(
-          `Failed to parse JSON: ${errMsg}\n--- Raw JSON ---\n${jsonText}\n--- Cleaned JSON ---\n${cleanedJson}`,
-        );
-        throw parseError;
+    for (const item of pending) {
+      const itemTokens = estimateTokens(item.section);
+      const isFull = current.length >= batch_size || tokens + itemTokens > batch_max_tokens;
+      if (current.length > 0 && isFull) {
+        batches.push(current);
+        current = [];
+        tokens = 0;
       }
+      current.push(item);
+      tokens += itemTokens;
+    }
+    if (current.length > 0) {
+      batches.push(current);
+    }
+    return batches;
+  }
+
+  /**
+   * 1イベントを LLM で分析し、結果をキャッシュ・記録
+   */
+  private async analyzeSingle(
+    event: ConnpassEvent,
+    key: AnalysisCacheKey,
+    tracker?: CostTracker,
+  ): Promise<LLMAnalysisResult> {
+    const prompt = buildPrompt(this.profile, this.examples, toPromptFields(event));
+    const promptHash = hash(prompt);
+    const startedAt = Date.now();
+
+    try {
+      const response = await generateJSON(this.provider, prompt, analysisSpec);
+      const result = response.data;
 
       logger.debug(
         {
           eventId: event.id,
-          provider: this.provider.name,
+          provider: response.provider ?? this.provider.name,
+          model: response.model ?? this.provider.model,
           interest: result.interest,
           speaker: result.speaker,
         },
         "LLM analysis completed",
       );
 
-      return {
-        interest: {
-          is_match: result.interest.is_match,
-          score: result.interest.score,
-          keyword_matches: [],
-          llm_reason: result.interest.reason,
-        },
-        speaker: {
-          has_opportunity: result.speaker.has_opportunity,
-          has_lt_slot: result.speaker.has_lt_slot,
-          has_cfp: result.speaker.has_cfp,
-          detected_keywords: result.speaker.reason ? [result.speaker.reason] : [],
-        },
-      };
+      const analysis = toAnalysis(result);
+      this.saveToCache(event.id, key, analysis, response);
+
+      const decision = this.toDecision(promptHash, startedAt, response, {
+        parsed: result,
+        error: null,
+        batchSize: 1,
+      });
+      this.recorder?.record(event.id, decision);
+      tracker?.record(decision.provider, decision.model, response.usage);
+      return { ...analysis, decision };
     } catch (error) {
       // エラー詳細を抽出
       const errorDetails =
@@ -204,7 +591,123 @@ ${profile}
         { error: errorDetails, eventId: event.id, provider: this.provider.name },
         "LLM analysis failed",
       );
-      return defaultResult;
+      const response = toFailedResponse(error);
+      const decision = this.toDecision(promptHash, startedAt, response, {
+        parsed: null,
+        error: error instanceof Error ? error.message : String(error),
+        batchSize: 1,
+      });
+      this.recorder?.record(event.id, decision);
+      tracker?.record(decision.provider, decision.model, response?.usage);
+      return { ...createDefaultResult(), decision };
+    }
+  }
+
+  /**
+   * 複数イベントを1つのプロンプトで分析し、結果をキャッシュ・記録
+   * @returns 応答から分析結果を得られたイベントのみ
+   */
+  private async analyzeBatch(
+    batch: PendingAnalysis[],
+    tracker: CostTracker,
+  ): Promise<Map<number, LLMAnalysisResult>> {
+    const prompt = buildBatchPrompt(
+      this.profile,
+      this.examples,
+      batch.map((item) => item.section),
+    );
+    const promptHash = hash(prompt);
+    const startedAt = Date.now();
+    let response: LLMResponse | null = null;
+    let items = new Map<number, RawAnalysisResult>();
+    let batchError: string | null = null;
+
+    try {
+      const batchResponse = await generateJSON(this.provider, prompt, batchAnalysisSpec, {
+        maxTokens: Math.max(MIN_OUTPUT_TOKENS, batch.length * BATCH_OUTPUT_TOKENS_PER_EVENT),
+      });
+      response = batchResponse;
+      items = new Map(batchResponse.data.results.map(({ event_id, ...item }) => [event_id, item]));
+    } catch (error) {
+      response = toFailedResponse(error);
+      batchError = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        { error: batchError, count: batch.length, provider: this.provider.name },
+        "Batch LLM analysis failed, falling back to single analysis",
+      );
+    }
+    tracker.record(
+      response?.provider ?? this.provider.name,
+      response?.model ?? this.provider.model,
+      response?.usage,
+    );
+
+    const results = new Map<number, LLMAnalysisResult>();
+    for (const { event, key } of batch) {
+      const result = items.get(event.id) ?? null;
+      const decision = this.toDecision(promptHash, startedAt, response, {
+        parsed: result,
+        error: result ? null : (batchError ?? "Event missing from batch response"),
+        batchSize: batch.length,
+      });
+      this.recorder?.record(event.id, decision);
+      if (!result) {
+        continue;
+      }
+      const analysis = toAnalysis(result);
+      this.saveToCache(event.id, key, analysis, response);
+      results.set(event.id, { ...analysis, decision });
+    }
+
+    logger.debug(
+      {
+        count: batch.length,
+        analyzed: results.size,
+        provider: response?.provider ?? this.provider.name,
+        model: response?.model ?? this.provider.model,
+      },
+      "Batch LLM analysis completed",
+    );
+    return results;
+  }
+
+  /**
+   * 分析結果をキャッシュ
+   * キャッシュキーは優先のプロバイダ・モデルで作るため、フォールバック先が応答した結果はキャッシュしない
+   * (再処理するときに優先のモデルで分析し直すため)
+   */
+  private saveToCache(
+    eventId: number,
+    key: AnalysisCacheKey,
+    analysis: LLMAnalysisResult,
+    response: LLMResponse | null,
+  ): void {
+    const provider = response?.provider ?? this.provider.name;
+    const model = response?.model ?? this.provider.model;
+    if (provider !== this.provider.name || model !== this.provider.model) {
+      logger.debug({ eventId, provider, model }, "Fallback analysis not cached");
+      return;
     }
+    this.cache?.save(eventId, key, analysis);
+  }
+
+  private toDecision(
+    promptHash: string,
+    startedAt: number,
+    response: LLMResponse | null,
+    outcome: { parsed: RawAnalysisResult | null; error: string | null; batchSize: number },
+  ): LLMDecision {
+    return {
+      provider: response?.provider ?? this.provider.name,
+      model: response?.model ?? this.provider.model,
+      promptHash,
+      rawResponse: response?.text ?? null,
+      parsedResult: outcome.parsed,
+      latencyMs: Date.now() - startedAt,
+      inputTokens: response?.usage?.inputTokens ?? null,
+      outputTokens: response?.usage?.outputTokens ?? null,
+      batchSize: outcome.batchSize,
+      error: outcome.error,
+    };
   }
 }
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { configSchema } from "../config/schema.js";
+import type { ConnpassEvent } from "../connpass/types.js";
+import { HeuristicSpeakerDetector, disagrees } from "./speaker.js";
+
+function createDetector(speaker: Record<string, unknown> = {}): HeuristicSpeakerDetector {
+  const config = configSchema.parse({ connpass: { api_key: "test" }, speaker });
+  return new HeuristicSpeakerDetector(config.speaker);
+}
+
+/**
+ * 判定に使う項目 (タイトル・キャッチ・説明文) だけを指定したイベント
+ */
+function announcement(
+  fields: Partial<Pick<ConnpassEvent, "title" | "catch" | "description">>,
+): ConnpassEvent {
+  return { title: "勉強会", catch: "", description: "", ...fields } as ConnpassEvent;
+}
+
+describe("HeuristicSpeakerDetector", () => {
+  it("LT枠の募集を検出", () => {
+    const result = createDetector().detect(
+      announcement({ title: "TypeScript 勉強会 #12", catch: "LT枠あり (5分)" }),
+    );
+    expect(result).toMatchObject({ has_opportunity: true, has_lt_slot: true, has_cfp: false });
+    expect(result.detected_keywords).toEqual(["LT枠"]);
+  });
+
+  it("LT発表枠・LT登壇者の募集を検出", () => {
+    const detector = createDetector();
+    expect(detector.detect(announcement({ description: "<p>LT発表枠: 3名</p>" }))).toMatchObject({
+      has_lt_slot: true,
+      detected_keywords: ["LT発表枠"],
+    });
+    expect(detector.detect(announcement({ catch: "LT登壇者募集中!" })).has_lt_slot).toBe(true);
+  });
+
+  it("「LT会」などの開催形式だけでは LT 枠とみなさない", () => {
+    const detector = createDetector();
+    expect(detector.detect(announcement({ title: "TypeScript LT会 #12" })).has_opportunity).toBe(
+      false,
+    );
+    expect(
+      detector.detect(announcement({ title: "ライトニングトーク大会", catch: "Lightning Talks" }))
+        .has_opportunity,
+    ).toBe(false);
+  });
+
+  it("登壇者募集・CFP を検出", () => {
+    const result = createDetector().detect(
+      announcement({ description: "<p>CFP を開始しました。登壇者募集中です</p>" }),
+    );
+    expect(result).toMatchObject({ has_opportunity: true, has_lt_slot: false, has_cfp: true });
+    expect(result.detected_keywords).toEqual(expect.arrayContaining(["CFP", "登壇者募集"]));
+  });
+
+  it("締め切りと応募フォームのリンクを抽出", () => {
+    const result = createDetector().detect(
+      announcement({
+        description:
+          '<p>LT枠あり</p><p>応募締切: 3/10まで</p><a href="https://forms.gle/abc123">応募フォーム</a>',
+      }),
+    );
+    expect(result.detected_keywords).toEqual([
+      "LT枠",
+      "応募締切: 3/10まで",
+      "https://forms.gle/abc123",
+    ]);
+  });
+
+  it("設定のキーワードも登壇機会とみなす", () => {
+    const detector = createDetector({ cfp_keywords: ["発表者エントリー"] });
+    const result = detector.detect(announcement({ catch: "発表者エントリー受付中" }));
+    expect(result.has_cfp).toBe(true);
+    expect(result.detected_keywords).toEqual(["発表者エントリー"]);
+  });
+
+  it("登壇機会の記載がなければ検出しない", () => {
+    const result = createDetector().detect(
+      announcement({ title: "もくもく会", description: "<p>締切: 3/10 https://forms.gle/x</p>" }),
+    );
+    expect(result).toEqual({
+      has_opportunity: false,
+      has_lt_slot: false,
+      has_cfp: false,
+      detected_keywords: [],
+    });
+  });
+});
+
+describe("disagrees", () => {
+  it("登壇機会の有無のみ比較", () => {
+    const base = {
+      has_opportunity: true,
+      has_lt_slot: true,
+      has_cfp: false,
+      detected_keywords: [],
+    };
+    expect(disagrees(base, { ...base, has_lt_slot: false, has_cfp: true })).toBe(false);
+    expect(disagrees(base, { ...base, has_opportunity: false })).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import type { Config } from "../config/schema.js";
+import type { ConnpassEvent, SpeakerOpportunity } from "../connpass/types.js";
+import { stripHtml } from "../utils/html.js";
+
+/**
+ * LT枠の募集 (「LT枠」「LT発表枠」「LT登壇者募集」など)
+ * 「LT会」「ライトニングトーク大会」のような開催形式の名詞だけでは枠の空きがわからないため対象外
+ */
+const LT_PATTERNS: RegExp[] = [
+  /LT\s*(?:発表|登壇)?\s*枠/gi,
+  /(?:LT|ライトニング\s*トーク)\s*(?:登壇者|発表者|スピーカー)?\s*(?:を|の)?\s*(?:大)?募集/gi,
+  /lightning\s*talks?\s*slots?/gi,
+  /call\s+for\s+lightning\s*talks?/gi,
+];
+
+/** 登壇者・発表者の公募 */
+const CFP_PATTERNS: RegExp[] = [
+  /\bCFP\b/gi,
+  /call\s+for\s+(?:proposals?|papers?|speakers?|presentations?)/gi,
+  /(?:登壇者|発表者|スピーカー|講演者|登壇|発表)\s*(?:を|の)?\s*(?:大)?(?:募集|公募)/g,
+  /プロポーザル\s*(?:を|の)?\s*(?:募集|受付|応募)/g,
+];
+
+/** 応募の締め切り (「応募締切: 3/10」などの日付まで抽出) */
+const DEADLINE_PATTERN =
+  /(?:応募|募集|CFP|プロポーザル|登壇|LT)\s*の?\s*(?:締切|締め切り|〆切|期限|deadline)\s*[:：は]?\s*[^\s。、,]{0,20}/i;
+
+/** 応募フォームとみなすリンク */
+const APPLICATION_LINK_PATTERN =
+  /https?:\/\/(?:docs\.google\.com\/forms|forms\.gle|fortee\.jp|sessionize\.com|forms\.office\.com|tayori\.com)[^\s"'<>)]*/i;
+
+/**
+ * 一致した語句を重複なく抽出
+ */
+function findPhrases(text: string, patterns: RegExp[]): string[] {
+  const phrases = new Set<string>();
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      phrases.add(match[0].trim());
+    }
+  }
+  return [...phrases];
+}
+
+function findKeywords(text: string, keywords: string[]): string[] {
+  const lower = text.toLowerCase();
+  return keywords.filter((keyword) => lower.includes(keyword.normalize("NFKC").toLowerCase()));
+}
+
+/**
+ * 登壇機会の判定結果が食い違うか (登壇機会の有無のみ比較)
+ */
+export function disagrees(a: SpeakerOpportunity, b: SpeakerOpportunity): boolean {
+  return a.has_opportunity !== b.has_opportunity;
+}
+
+/**
+ * LLM を使わずにタイトル・キャッチ・説明文の表記から登壇機会を判定
+ * detected_keywords には一致した語句と、登壇機会がある場合は締め切り・応募フォームのリンクを入れる
+ */
+export class HeuristicSpeakerDetector {
+  private ltKeywords: string[];
+  private cfpKeywords: string[];
+
+  constructor(config: Config["speaker"]) {
+    this.ltKeywords = config.lt_keywords;
+    this.cfpKeywords = config.cfp_keywords;
+  }
+
+  detect(event: ConnpassEvent): SpeakerOpportunity {
+    const text = [event.title, event.catch ?? "", stripHtml(event.description)]
+      .join("\n")
+      .normalize("NFKC");
+
+    const ltPhrases = [...findPhrases(text, LT_PATTERNS), ...findKeywords(text, this.ltKeywords)];
+    const cfpPhrases = [
+      ...findPhrases(text, CFP_PATTERNS),
+      ...findKeywords(text, this.cfpKeywords),
+    ];
+    const hasOpportunity = ltPhrases.length > 0 || cfpPhrases.length > 0;
+
+    const detected = [...ltPhrases, ...cfpPhrases];
+    if (hasOpportunity) {
+      const deadline = text.match(DEADLINE_PATTERN)?.[0].trim();
+      const link = event.description.match(APPLICATION_LINK_PATTERN)?.[0];
+      detected.push(...[deadline, link].filter((value): value is string => Boolean(value)));
+    }
+
+    return {
+      has_opportunity: hasOpportunity,
+      has_lt_slot: ltPhrases.length > 0,
+      has_cfp: cfpPhrases.length > 0,
+      detected_keywords: detected,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createChildLogger } from "./logger.js";
+
+const logger = createChildLogger("cassette");
+
+const META_FILE = "meta.json";
+
+export type CassetteMode = "record" | "replay";
+
+interface CassetteMeta {
+  /** 記録した日時 (再生時の「現在日時」として使用) */
+  recorded_at: string;
+}
+
+interface CassetteEntry<T> {
+  key: unknown;
+  response: T;
+}
+
+/**
+ * 再生時にフィクスチャが見つからない
+ */
+export class CassetteMissError extends Error {
+  constructor(kind: string, key: unknown) {
+    super(`No recorded ${kind} response for ${JSON.stringify(key).slice(0, 200)}`);
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * HTTPレスポンスの記録・再生 (カセット)
+ * 記録モードでは実際のレスポンスをフィクスチャとして保存し、再生モードではフィクスチャのみを返す
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  private dir: string;
+  private meta: CassetteMeta;
+
+  constructor(mode: CassetteMode, dir: string) {
+    this.mode = mode;
+    this.dir = dir;
+
+    const metaPath = join(dir, META_FILE);
+    if (mode === "record") {
+      mkdirSync(dir, { recursive: true });
+      this.meta = { recorded_at: new Date().toISOString() };
+      writeFileSync(metaPath, JSON.stringify(this.meta, null, 2));
+    } else {
+      if (!existsSync(metaPath)) {
+        throw new Error(`Cassette not found: ${metaPath}`);
+      }
+      this.meta = JSON.parse(readFileSync(metaPath, "utf-8")) as CassetteMeta;
+    }
+
+    logger.info({ mode, dir, recordedAt: this.meta.recorded_at }, "Cassette loaded");
+  }
+
+  /**
+   * 記録時の日時 (再生時に日付範囲を再現するため)
+   */
+  get recordedAt(): Date {
+    return new Date(this.meta.recorded_at);
+  }
+
+  /**
+   * キーに対応するフィクスチャのパス
+   */
+  private entryPath(kind: string, key: unknown): string {
+    const hash = createHash("sha256").update(JSON.stringify(key)).digest("hex").slice(0, 16);
+    return join(this.dir, kind, `${hash}.json`);
+  }
+
+  /**
+   * レスポンスを記録または再生
+   * 記録モードでは fn を実行して結果を保存、再生モードでは保存済みの結果を返す
+   */
+  async through<T>(kind: string, key: unknown, fn: () => Promise<T>): Promise<T> {
+    const path = this.entryPath(kind, key);
+
+    if (this.mode === "replay") {
+      if (!existsSync(path)) {
+        throw new CassetteMissError(kind, key);
+      }
+      const entry = JSON.parse(readFileSync(path, "utf-8")) as CassetteEntry<T>;
+      logger.debug({ kind, path }, "Replayed response");
+      return entry.response;
+    }
+
+    const response = await fn();
+    const entry: CassetteEntry<T> = { key, response };
+    mkdirSync(join(this.dir, kind), { recursive: true });
+    writeFileSync(path, JSON.stringify(entry, null, 2));
+    logger.debug({ kind, path }, "Recorded response");
+    return response;
+  }
+}
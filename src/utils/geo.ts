@@ -0,0 +1,37 @@
+const EARTH_RADIUS_KM = 6371;
+
+export interface Coordinate {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * 緯度経度の文字列を座標に変換 (不正・欠損の場合は null)
+ */
+export function parseCoordinate(lat: string | null, lon: string | null): Coordinate | null {
+  if (!lat || !lon) {
+    return null;
+  }
+  const parsed = { lat: Number(lat), lon: Number(lon) };
+  if (!Number.isFinite(parsed.lat) || !Number.isFinite(parsed.lon)) {
+    return null;
+  }
+  // connpass は座標未設定の会場で 0,0 を返すことがある
+  if (parsed.lat === 0 && parsed.lon === 0) {
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * 2点間の距離 (km, ハーバーサイン公式)
+ */
+export function distanceKm(a: Coordinate, b: Coordinate): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
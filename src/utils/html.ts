@@ -0,0 +1,9 @@
+/**
+ * HTMLタグを除去
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
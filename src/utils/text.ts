@@ -0,0 +1,20 @@
+/**
+ * 表記ゆれを吸収 (全角英数字・記号を半角に、半角カナを全角に、英字を小文字に)
+ */
+export function normalizeText(text: string): string {
+  return text.normalize("NFKC").toLowerCase();
+}
+
+/**
+ * 語句の照合関数を作成 (照合するテキストは normalizeText で正規化しておく)
+ * 英数字の語句は単語境界で照合 ("go" が "google" に、"meet" が "meetup" にマッチしないように)
+ */
+export function createTermMatcher(term: string): (text: string) => boolean {
+  const normalized = normalizeText(term);
+  if (/^[\x20-\x7e]+$/.test(normalized)) {
+    const escaped = normalized.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const regex = new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`);
+    return (text) => regex.test(text);
+  }
+  return (text) => text.includes(normalized);
+}